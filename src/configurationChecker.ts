@@ -0,0 +1,80 @@
+/**
+ * Configuration Checker - 配置检查器
+ * 通过真实的接口调用验证FOFA凭据和LLM接口是否可用，并检查剩余配额
+ */
+
+import { LLMService } from "./llmService.js";
+import { FofaService } from "./fofaService.js";
+import { ConfigurationReport, FofaAccountInfo } from "./types.js";
+
+export class ConfigurationChecker {
+  // 剩余F点低于该值时给出提醒
+  private static readonly LOW_FPOINT_THRESHOLD = 100;
+
+  /**
+   * 检查FOFA账户和LLM接口
+   * @param fofaService FOFA服务
+   * @param llmService LLM服务，为null时跳过LLM检查
+   * @returns Promise<ConfigurationReport> 检查报告
+   */
+  static async check(
+    fofaService: FofaService,
+    llmService: LLMService | null
+  ): Promise<ConfigurationReport> {
+    const [fofa, llm] = await Promise.all([
+      this.checkFofa(fofaService),
+      llmService
+        ? llmService.checkConnection()
+        : Promise.resolve({ ok: true, latencyMs: 0, skipped: true }),
+    ]);
+
+    return {
+      ok: fofa.ok && llm.ok,
+      fofa,
+      llm,
+      warnings: fofa.account ? this.collectWarnings(fofa.account) : [],
+    };
+  }
+
+  /**
+   * 调用账户信息接口验证FOFA凭据
+   */
+  private static async checkFofa(
+    fofaService: FofaService
+  ): Promise<ConfigurationReport["fofa"]> {
+    const startedAt = Date.now();
+
+    try {
+      const account = await fofaService.getAccountInfo();
+      return { ok: true, latencyMs: Date.now() - startedAt, account };
+    } catch (error) {
+      return {
+        ok: false,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : "未知错误",
+      };
+    }
+  }
+
+  /**
+   * 根据账户配额生成提醒
+   */
+  private static collectWarnings(account: FofaAccountInfo): string[] {
+    const warnings: string[] = [];
+
+    // FOFA未返回的配额不做判断
+    if (account.remainApiQuery !== undefined && account.remainApiQuery <= 0) {
+      warnings.push("API查询次数已用完，查询将会失败");
+    }
+    if (account.remainApiData !== undefined && account.remainApiData <= 0) {
+      warnings.push("可获取的数据条数已用完，查询将无法返回结果");
+    }
+    if (account.fofaPoints + account.remainFreePoints < this.LOW_FPOINT_THRESHOLD) {
+      warnings.push(
+        `剩余F点较少（${account.fofaPoints + account.remainFreePoints}），大批量收集可能会中途失败`
+      );
+    }
+
+    return warnings;
+  }
+}
@@ -0,0 +1,498 @@
+/**
+ * FOFA Field Catalog - FOFA字段目录
+ * 内置FOFA支持的查询字段，声明每个字段的取值类型和允许的匹配操作符，
+ * 并基于语法树对查询中的字段、操作符和取值进行校验
+ */
+
+import {
+  FofaFieldDefinition,
+  FofaFieldValueType,
+  FofaMatchOperator,
+  FofaQueryNode,
+  FofaConditionNode,
+  FofaResultFieldDefinition,
+} from "./types.js";
+import { FofaQuerySyntaxError } from "./queryParser.js";
+
+/**
+ * FOFA字段校验错误：语法合法，但字段、操作符或取值不被FOFA接受
+ */
+export class FofaQueryFieldError extends FofaQuerySyntaxError {
+  readonly field: string;
+
+  constructor(message: string, field: string, column: number, query: string) {
+    super(message, column, query);
+    this.name = "FofaQueryFieldError";
+    this.message = `FOFA字段校验错误（第${column}列）: ${message}`;
+    this.field = field;
+  }
+}
+
+const ALL_OPERATORS: FofaMatchOperator[] = ["=", "==", "!=", "*=", "!*="];
+const EXACT_OPERATORS: FofaMatchOperator[] = ["=", "!="];
+
+/**
+ * 构建字段定义的简写工具
+ */
+function field(
+  name: string,
+  valueType: FofaFieldValueType,
+  description: string,
+  operators: FofaMatchOperator[] = ALL_OPERATORS,
+  values?: string[]
+): FofaFieldDefinition {
+  return { name, valueType, operators, description, values };
+}
+
+const FIELD_DEFINITIONS: FofaFieldDefinition[] = [
+  // 基础
+  field("ip", "ip", "IP地址或CIDR网段", EXACT_OPERATORS),
+  field("port", "port", "端口号", EXACT_OPERATORS),
+  field("ports", "port_list", "资产开放的端口集合", ["=", "==", "!="]),
+  field("domain", "text", "根域名"),
+  field("host", "text", "主机名"),
+  field("title", "text", "网页标题"),
+  field("body", "text", "网页正文"),
+  field("header", "text", "HTTP响应头"),
+  field("banner", "text", "协议banner"),
+  field("protocol", "text", "协议名称"),
+  field("base_protocol", "text", "传输层协议", EXACT_OPERATORS, ["tcp", "udp"]),
+  field("server", "text", "服务器"),
+  field("os", "text", "操作系统"),
+  field("app", "text", "FOFA内置应用名称"),
+  field("product", "text", "产品名称"),
+  field("category", "text", "产品分类"),
+  field("type", "text", "资产类型", EXACT_OPERATORS, ["subdomain", "service"]),
+  field("status_code", "integer", "HTTP状态码", EXACT_OPERATORS),
+  field("icon_hash", "integer", "网站图标hash", EXACT_OPERATORS),
+  field("icp", "text", "ICP备案号"),
+  field("js_name", "text", "页面引用的JS文件"),
+  field("js_md5", "text", "JS文件MD5"),
+  field("fid", "text", "站点指纹"),
+  field("header_hash", "text", "响应头hash", EXACT_OPERATORS),
+  field("body_hash", "text", "正文hash", EXACT_OPERATORS),
+  field("banner_hash", "text", "banner hash", EXACT_OPERATORS),
+  field("jarm", "text", "JARM指纹", EXACT_OPERATORS),
+  field("cname", "text", "CNAME记录"),
+  field("cname_domain", "text", "CNAME根域名"),
+  field("cloud_name", "text", "云厂商名称"),
+
+  // 地理位置与网络归属
+  field("country", "text", "国家代码或名称", EXACT_OPERATORS),
+  field("region", "text", "省/州", EXACT_OPERATORS),
+  field("city", "text", "城市", EXACT_OPERATORS),
+  field("asn", "integer", "自治系统号", EXACT_OPERATORS),
+  field("org", "text", "所属组织"),
+
+  // 证书
+  field("cert", "text", "证书内容"),
+  field("cert.subject", "text", "证书持有者"),
+  field("cert.subject.org", "text", "证书持有者组织"),
+  field("cert.subject.cn", "text", "证书持有者通用名称"),
+  field("cert.issuer", "text", "证书颁发者"),
+  field("cert.issuer.org", "text", "证书颁发者组织"),
+  field("cert.issuer.cn", "text", "证书颁发者通用名称"),
+  field("cert.domain", "text", "证书域名"),
+  field("cert.sn", "text", "证书序列号", EXACT_OPERATORS),
+  field("cert.is_valid", "boolean", "证书是否有效", EXACT_OPERATORS),
+  field("cert.is_match", "boolean", "证书与域名是否匹配", EXACT_OPERATORS),
+  field("cert.is_expired", "boolean", "证书是否过期", EXACT_OPERATORS),
+  field("tls.version", "text", "TLS版本", EXACT_OPERATORS),
+  field("tls.ja3s", "text", "JA3S指纹", EXACT_OPERATORS),
+
+  // 时间
+  field("after", "date", "更新时间晚于指定日期", ["="]),
+  field("before", "date", "更新时间早于指定日期", ["="]),
+
+  // 布尔
+  field("is_domain", "boolean", "是否为域名资产", EXACT_OPERATORS),
+  field("is_ipv6", "boolean", "是否为IPv6资产", EXACT_OPERATORS),
+  field("is_cloud", "boolean", "是否为云上资产", EXACT_OPERATORS),
+  field("is_honeypot", "boolean", "是否为蜜罐", EXACT_OPERATORS),
+  field("is_fraud", "boolean", "是否为仿冒站点", EXACT_OPERATORS),
+];
+
+/**
+ * FOFA search/all 接口可返回的字段（fields 参数）
+ */
+const RESULT_FIELD_DEFINITIONS: FofaResultFieldDefinition[] = [
+  { name: "ip", label: "IP地址" },
+  { name: "port", label: "端口" },
+  { name: "protocol", label: "协议" },
+  { name: "base_protocol", label: "传输层协议" },
+  { name: "host", label: "主机" },
+  { name: "domain", label: "域名" },
+  { name: "link", label: "链接" },
+  { name: "title", label: "标题" },
+  { name: "server", label: "服务器" },
+  { name: "os", label: "操作系统" },
+  { name: "header", label: "响应头" },
+  { name: "banner", label: "Banner" },
+  { name: "body", label: "正文" },
+  { name: "status_code", label: "状态码" },
+  { name: "country", label: "国家代码" },
+  { name: "country_name", label: "国家" },
+  { name: "region", label: "省/州" },
+  { name: "city", label: "城市" },
+  { name: "longitude", label: "经度" },
+  { name: "latitude", label: "纬度" },
+  { name: "asn", label: "ASN" },
+  { name: "org", label: "组织" },
+  { name: "icp", label: "ICP备案" },
+  { name: "product", label: "产品" },
+  { name: "product_category", label: "产品分类" },
+  { name: "version", label: "版本" },
+  { name: "cname", label: "CNAME" },
+  { name: "cname_domain", label: "CNAME域名" },
+  { name: "icon_hash", label: "图标hash" },
+  { name: "fid", label: "站点指纹" },
+  { name: "jarm", label: "JARM" },
+  { name: "cert", label: "证书" },
+  { name: "certs_valid", label: "证书有效" },
+  { name: "cert.subject.org", label: "证书持有者组织" },
+  { name: "cert.subject.cn", label: "证书持有者CN" },
+  { name: "cert.issuer.org", label: "证书颁发者组织" },
+  { name: "cert.issuer.cn", label: "证书颁发者CN" },
+  { name: "cert.domain", label: "证书域名" },
+  { name: "cert.is_valid", label: "证书是否有效" },
+  { name: "cert.is_match", label: "证书是否匹配" },
+  { name: "cert.is_expired", label: "证书是否过期" },
+  { name: "cert.not_before", label: "证书生效时间" },
+  { name: "cert.not_after", label: "证书过期时间" },
+  { name: "tls.version", label: "TLS版本" },
+  { name: "tls.ja3s", label: "JA3S" },
+  { name: "header_hash", label: "响应头hash" },
+  { name: "banner_hash", label: "Banner hash" },
+  { name: "body_hash", label: "正文hash" },
+  { name: "lastupdatetime", label: "更新时间" },
+];
+
+/**
+ * FOFA search/stats 接口支持的聚合字段
+ */
+const STATS_FIELDS = [
+  "protocol",
+  "domain",
+  "port",
+  "title",
+  "os",
+  "server",
+  "country",
+  "asn",
+  "org",
+  "asset_type",
+  "fid",
+  "icp",
+];
+
+/**
+ * 未指定聚合字段时使用的默认字段
+ */
+export const DEFAULT_STATS_FIELDS = ["country", "port", "server"];
+
+/**
+ * 未指定返回字段时使用的默认字段
+ */
+export const DEFAULT_RESULT_FIELDS = ["ip", "port", "title", "host"];
+
+export class FofaFieldCatalog {
+  private static readonly FIELDS: Map<string, FofaFieldDefinition> = new Map(
+    FIELD_DEFINITIONS.map((definition) => [definition.name, definition])
+  );
+
+  private static readonly RESULT_FIELDS: Map<
+    string,
+    FofaResultFieldDefinition
+  > = new Map(
+    RESULT_FIELD_DEFINITIONS.map((definition) => [definition.name, definition])
+  );
+
+  /**
+   * 获取字段定义
+   * @param name 字段名
+   * @returns FofaFieldDefinition | undefined 字段定义，未知字段返回undefined
+   */
+  static get(name: string): FofaFieldDefinition | undefined {
+    return this.FIELDS.get(name);
+  }
+
+  /**
+   * 列出目录中的全部字段
+   * @returns FofaFieldDefinition[] 字段定义数组
+   */
+  static list(): FofaFieldDefinition[] {
+    return [...this.FIELDS.values()];
+  }
+
+  /**
+   * 列出全部可返回的结果字段
+   * @returns FofaResultFieldDefinition[] 结果字段定义数组
+   */
+  static listResultFields(): FofaResultFieldDefinition[] {
+    return [...this.RESULT_FIELDS.values()];
+  }
+
+  /**
+   * 获取结果字段的展示名称，未知字段返回字段名本身
+   * @param name 结果字段名
+   * @returns 展示用列名
+   */
+  static resultFieldLabel(name: string): string {
+    return this.RESULT_FIELDS.get(name)?.label ?? name;
+  }
+
+  /**
+   * 规范化并校验返回字段列表：去除空白和重复项，拒绝未知字段
+   * @param fields 返回字段列表，可为数组或逗号分隔的字符串
+   * @returns string[] 规范化后的字段列表，为空时返回默认字段
+   * @throws Error 包含未知字段时抛出
+   */
+  static normalizeResultFields(fields?: string[] | string): string[] {
+    const list = (Array.isArray(fields) ? fields : (fields ?? "").split(","))
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
+
+    if (list.length === 0) {
+      return [...DEFAULT_RESULT_FIELDS];
+    }
+
+    const unknown = list.filter((name) => !this.RESULT_FIELDS.has(name));
+    if (unknown.length > 0) {
+      throw new Error(
+        `不支持的返回字段: ${unknown.join(", ")}，可用字段: ${[
+          ...this.RESULT_FIELDS.keys(),
+        ].join(", ")}`
+      );
+    }
+
+    return [...new Set(list)];
+  }
+
+  /**
+   * 规范化并校验聚合字段列表
+   * @param fields 聚合字段列表，可为数组或逗号分隔的字符串
+   * @returns string[] 规范化后的字段列表，为空时返回默认聚合字段
+   * @throws Error 包含不支持聚合的字段时抛出
+   */
+  static normalizeStatsFields(fields?: string[] | string): string[] {
+    const list = (Array.isArray(fields) ? fields : (fields ?? "").split(","))
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
+
+    if (list.length === 0) {
+      return [...DEFAULT_STATS_FIELDS];
+    }
+
+    const unknown = list.filter((name) => !STATS_FIELDS.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(
+        `不支持的聚合字段: ${unknown.join(
+          ", "
+        )}，可用字段: ${STATS_FIELDS.join(", ")}`
+      );
+    }
+
+    return [...new Set(list)];
+  }
+
+  /**
+   * 校验语法树中的所有字段条件
+   * @param ast 查询语法树
+   * @param query 原始查询字符串，用于错误定位
+   * @throws FofaQueryFieldError 字段、操作符或取值不合法时抛出
+   */
+  static validate(ast: FofaQueryNode, query: string): void {
+    switch (ast.type) {
+      case "logical":
+        this.validate(ast.left, query);
+        this.validate(ast.right, query);
+        return;
+      case "group":
+        this.validate(ast.expression, query);
+        return;
+      case "condition":
+        this.validateCondition(ast, query);
+        return;
+      case "keyword":
+        return;
+    }
+  }
+
+  /**
+   * 校验单个字段条件
+   */
+  private static validateCondition(
+    condition: FofaConditionNode,
+    query: string
+  ): void {
+    const definition = this.get(condition.field);
+    const fail = (
+      message: string,
+      column: number = condition.column
+    ): never => {
+      throw new FofaQueryFieldError(message, condition.field, column, query);
+    };
+
+    if (!definition) {
+      const suggestion = this.suggest(condition.field);
+      return fail(
+        `未知的FOFA字段 "${condition.field}"` +
+          (suggestion ? `，是否想使用 "${suggestion}"？` : "")
+      );
+    }
+
+    if (!definition.operators.includes(condition.operator)) {
+      return fail(
+        `字段 "${definition.name}" 不支持操作符 "${
+          condition.operator
+        }"，可用操作符: ${definition.operators.join(" ")}`,
+        condition.operatorColumn
+      );
+    }
+
+    if (!condition.quoted && definition.valueType !== "boolean") {
+      return fail(
+        `字段 "${definition.name}" 的取值必须使用双引号包裹，例如 ${definition.name}="${condition.value}"`,
+        condition.valueColumn
+      );
+    }
+
+    const valueError = this.checkValue(definition, condition.value);
+    if (valueError) {
+      return fail(valueError, condition.valueColumn);
+    }
+  }
+
+  /**
+   * 按字段的取值类型校验取值
+   * @returns 错误描述，取值合法时返回null
+   */
+  private static checkValue(
+    definition: FofaFieldDefinition,
+    value: string
+  ): string | null {
+    const name = definition.name;
+
+    if (definition.values && !definition.values.includes(value)) {
+      return `字段 "${name}" 只接受 ${definition.values.join(
+        "、"
+      )}，实际为 "${value}"`;
+    }
+
+    switch (definition.valueType) {
+      case "ip":
+        return this.isIpOrCidr(value)
+          ? null
+          : `字段 "${name}" 需要IP地址或CIDR网段（如 1.1.1.1 或 192.168.0.0/24），实际为 "${value}"`;
+      case "port":
+        return this.isPort(value)
+          ? null
+          : `字段 "${name}" 需要1-65535之间的端口号，实际为 "${value}"`;
+      case "port_list":
+        return value.split(",").every((port) => this.isPort(port.trim()))
+          ? null
+          : `字段 "${name}" 需要逗号分隔的端口号列表（如 80,443），实际为 "${value}"`;
+      case "integer":
+        return /^-?\d+$/.test(value)
+          ? null
+          : `字段 "${name}" 需要整数，实际为 "${value}"`;
+      case "date":
+        return this.isDate(value)
+          ? null
+          : `字段 "${name}" 需要 YYYY-MM-DD 格式的日期，实际为 "${value}"`;
+      case "boolean":
+        return value === "true" || value === "false"
+          ? null
+          : `字段 "${name}" 只接受 true 或 false，实际为 "${value}"`;
+      case "text":
+        return value.length > 0 ? null : `字段 "${name}" 的取值不能为空`;
+    }
+  }
+
+  private static isPort(value: string): boolean {
+    if (!/^\d{1,5}$/.test(value)) {
+      return false;
+    }
+    const port = Number(value);
+    return port >= 1 && port <= 65535;
+  }
+
+  /**
+   * 判断取值是否为单个IPv4/IPv6地址（不含CIDR前缀）
+   * @param value 待校验的取值
+   * @returns boolean 是否为IP地址
+   */
+  static isIpAddress(value: string): boolean {
+    return !value.includes("/") && this.isIpOrCidr(value);
+  }
+
+  private static isIpOrCidr(value: string): boolean {
+    const [address, prefix, ...rest] = value.split("/");
+    if (rest.length > 0) {
+      return false;
+    }
+
+    if (address.includes(":")) {
+      const validPrefix =
+        prefix === undefined || (/^\d{1,3}$/.test(prefix) && Number(prefix) <= 128);
+      return /^[0-9a-fA-F:.]+$/.test(address) && validPrefix;
+    }
+
+    const octets = address.split(".");
+    const validAddress =
+      octets.length === 4 &&
+      octets.every((octet) => /^\d{1,3}$/.test(octet) && Number(octet) <= 255);
+    const validPrefix =
+      prefix === undefined || (/^\d{1,2}$/.test(prefix) && Number(prefix) <= 32);
+
+    return validAddress && validPrefix;
+  }
+
+  private static isDate(value: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return false;
+    }
+    const date = new Date(`${value}T00:00:00Z`);
+    return (
+      !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+    );
+  }
+
+  /**
+   * 为未知字段推荐最接近的已知字段（编辑距离不超过2）
+   */
+  private static suggest(name: string): string | null {
+    let best: string | null = null;
+    let bestDistance = 3;
+
+    for (const candidate of this.FIELDS.keys()) {
+      const distance = this.editDistance(name.toLowerCase(), candidate);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+
+  private static editDistance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+      let previous = row[0];
+      row[0] = i;
+      for (let j = 1; j <= b.length; j++) {
+        const current = row[j];
+        row[j] = Math.min(
+          row[j] + 1,
+          row[j - 1] + 1,
+          previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+        previous = current;
+      }
+    }
+
+    return row[b.length];
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * File Store - 本地JSON文件存储
+ * 为本地缓存提供并发安全的JSON文件读写
+ */
+
+import { randomBytes } from "crypto";
+import { mkdir, readFile, readdir, rename, unlink, writeFile } from "fs/promises";
+import * as path from "path";
+
+export class FileStore {
+  /**
+   * 原子写入JSON文件：先写入唯一的临时文件再重命名，多个进程或并发调用同时写入同一文件时，
+   * 读取方只会看到某一次完整写入的内容
+   * @param filePath 目标文件路径，所在目录不存在时自动创建
+   * @param data 要写入的数据
+   */
+  static async writeJson(filePath: string, data: unknown): Promise<void> {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+
+    try {
+      await writeFile(tempPath, JSON.stringify(data), "utf8");
+      await rename(tempPath, filePath);
+    } catch (error) {
+      await unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * 读取JSON文件
+   * @param filePath 文件路径
+   * @returns 解析后的数据，文件不存在或内容损坏时返回null
+   */
+  static async readJson<T>(filePath: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(filePath, "utf8")) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 列出目录下的JSON文件名（不含扩展名），目录不存在时返回空数组
+   * @param directory 目录
+   */
+  static async listJson(directory: string): Promise<string[]> {
+    try {
+      const files = await readdir(directory);
+      return files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => file.slice(0, -".json".length));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 删除文件，文件已被其他进程删除时忽略
+   * @param filePath 文件路径
+   * @returns Promise<boolean> 是否由本次调用删除
+   */
+  static async remove(filePath: string): Promise<boolean> {
+    try {
+      await unlink(filePath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * FOFA Errors - FOFA接口错误
+ * 根据FOFA返回的错误码、错误信息和HTTP状态码区分错误类型，
+ * 每个错误保留FOFA返回的原始信息，调用方可以按类型给出对应的处理建议
+ */
+
+import axios from "axios";
+import { FofaErrorKind } from "./types.js";
+
+export interface FofaErrorDetails {
+  code?: number; // FOFA错误码，如 errmsg "[820031] F点余额不足" 中的 820031
+  errmsg?: string; // FOFA返回的原始错误信息
+  status?: number; // HTTP状态码
+  retryAfterMs?: number; // 服务端要求的等待时间（Retry-After）
+}
+
+/**
+ * FOFA接口错误的基类，也用于无法归类的错误
+ */
+export class FofaApiError extends Error {
+  readonly code?: number;
+  readonly errmsg?: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  /**
+   * @param message 错误说明，FOFA返回了错误信息时附加在说明之后
+   * @param details 错误码、原始错误信息和HTTP状态码
+   */
+  constructor(
+    message: string = "FOFA API返回错误",
+    details: FofaErrorDetails = {}
+  ) {
+    super(details.errmsg ? `${message}（FOFA: ${details.errmsg}）` : message);
+    this.name = "FofaApiError";
+    this.code = details.code;
+    this.errmsg = details.errmsg;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  get kind(): FofaErrorKind {
+    return "unknown";
+  }
+
+  /**
+   * 是否可以由请求调度器自动重试
+   */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * email或API key无效
+ */
+export class FofaAuthError extends FofaApiError {
+  constructor(details: FofaErrorDetails = {}) {
+    super("FOFA API认证失败，请检查email和API key配置", details);
+    this.name = "FofaAuthError";
+  }
+
+  get kind(): FofaErrorKind {
+    return "auth";
+  }
+}
+
+/**
+ * F点余额或API查询次数不足
+ */
+export class FofaQuotaError extends FofaApiError {
+  constructor(details: FofaErrorDetails = {}) {
+    super("FOFA API访问被拒绝，可能是查询配额不足", details);
+    this.name = "FofaQuotaError";
+  }
+
+  get kind(): FofaErrorKind {
+    return "quota";
+  }
+}
+
+/**
+ * 当前会员等级无权使用的字段或功能
+ */
+export class FofaPermissionError extends FofaApiError {
+  constructor(details: FofaErrorDetails = {}) {
+    super("当前FOFA会员等级无权使用该字段或功能", details);
+    this.name = "FofaPermissionError";
+  }
+
+  get kind(): FofaErrorKind {
+    return "permission";
+  }
+}
+
+/**
+ * FOFA拒绝了查询语句（本地语法校验未能发现的问题）
+ */
+export class FofaSyntaxError extends FofaApiError {
+  constructor(details: FofaErrorDetails = {}) {
+    super("FOFA拒绝了查询语句，请检查查询语法", details);
+    this.name = "FofaSyntaxError";
+  }
+
+  get kind(): FofaErrorKind {
+    return "syntax";
+  }
+}
+
+/**
+ * 请求过于频繁
+ */
+export class FofaRateLimitError extends FofaApiError {
+  constructor(details: FofaErrorDetails = {}) {
+    super("FOFA API请求过于频繁，请稍后重试", details);
+    this.name = "FofaRateLimitError";
+  }
+
+  get kind(): FofaErrorKind {
+    return "rate_limit";
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * FOFA服务端错误（HTTP 5xx）
+ */
+export class FofaServerError extends FofaApiError {
+  constructor(details: FofaErrorDetails = {}) {
+    const status = details.status ? `（HTTP ${details.status}）` : "";
+    super(`FOFA API服务暂时不可用${status}，请稍后重试`, details);
+    this.name = "FofaServerError";
+  }
+
+  get kind(): FofaErrorKind {
+    return "server";
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * 请求超时
+ */
+export class FofaTimeoutError extends FofaApiError {
+  constructor() {
+    super("FOFA API请求超时，请稍后重试");
+    this.name = "FofaTimeoutError";
+  }
+
+  get kind(): FofaErrorKind {
+    return "timeout";
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * 无法连接到FOFA（DNS解析失败、连接被拒绝或中断等）
+ */
+export class FofaNetworkError extends FofaApiError {
+  constructor(reason: string) {
+    super(`无法连接到FOFA API: ${reason}`);
+    this.name = "FofaNetworkError";
+  }
+
+  get kind(): FofaErrorKind {
+    return "network";
+  }
+}
+
+type FofaErrorClass = new (details: FofaErrorDetails) => FofaApiError;
+
+// FOFA文档中含义明确的错误码
+const ERROR_CODES: Record<number, FofaErrorClass> = {
+  [-700]: FofaAuthError, // 账号无效
+  820000: FofaSyntaxError, // 查询语法错误
+  820001: FofaPermissionError, // 没有权限搜索该字段
+  820031: FofaQuotaError, // F点余额不足
+};
+
+// 未知错误码时按错误信息中的关键词归类，按顺序匹配
+const ERROR_PATTERNS: Array<[RegExp, FofaErrorClass]> = [
+  [/频繁|过快|rate ?limit|too many requests/i, FofaRateLimitError],
+  [
+    /余额不足|配额|次数.*(用完|不足|上限)|quota|insufficient|balance/i,
+    FofaQuotaError,
+  ],
+  [/权限|会员|vip|permission|not allowed/i, FofaPermissionError],
+  [
+    /账号|账户|account|email|api ?key|认证|unauthori[sz]ed/i,
+    FofaAuthError,
+  ],
+  [/语法|syntax|qbase64|查询语句/i, FofaSyntaxError],
+];
+
+/**
+ * 根据FOFA返回的错误码和错误信息创建对应的错误
+ * @param errmsg FOFA返回的错误信息，可能以 "[错误码]" 开头
+ * @param details 其他错误信息，如单独返回的错误码和HTTP状态码
+ * @returns FofaApiError 对应类型的错误，无法归类时为 FofaApiError
+ */
+export function createFofaError(
+  errmsg: string | undefined,
+  details: FofaErrorDetails = {}
+): FofaApiError {
+  const message = (errmsg ?? "").trim();
+  const prefixed = message.match(/^\[(-?\d+)\]/);
+  const code = details.code ?? (prefixed ? Number(prefixed[1]) : undefined);
+  const fullDetails = { ...details, code, errmsg: message || undefined };
+
+  const byCode = code !== undefined ? ERROR_CODES[code] : undefined;
+  if (byCode) {
+    return new byCode(fullDetails);
+  }
+  const byPattern = ERROR_PATTERNS.find(([pattern]) => pattern.test(message));
+  return byPattern
+    ? new byPattern[1](fullDetails)
+    : new FofaApiError(undefined, fullDetails);
+}
+
+/**
+ * 将请求异常转换为FOFA错误：先按响应中的错误信息归类，再按HTTP状态码和网络错误归类
+ * @param error 捕获的异常
+ * @returns FofaApiError 对应类型的错误
+ */
+export function fofaErrorFromRequest(error: unknown): FofaApiError {
+  if (error instanceof FofaApiError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    const reason = error instanceof Error ? error.message : "未知错误";
+    return new FofaApiError(`FOFA查询执行失败: ${reason}`);
+  }
+
+  if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+    return new FofaTimeoutError();
+  }
+
+  const response = error.response;
+  if (!response) {
+    return new FofaNetworkError(error.message);
+  }
+
+  const details: FofaErrorDetails = {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers?.["retry-after"]),
+  };
+  const errmsg =
+    typeof response.data?.errmsg === "string" ? response.data.errmsg : "";
+
+  if (response.status === 429) {
+    return new FofaRateLimitError({ ...details, errmsg: errmsg || undefined });
+  }
+  if (response.status >= 500) {
+    return new FofaServerError({ ...details, errmsg: errmsg || undefined });
+  }
+  if (errmsg) {
+    return createFofaError(errmsg, details);
+  }
+  if (response.status === 401) {
+    return new FofaAuthError(details);
+  }
+  if (response.status === 403) {
+    return new FofaQuotaError(details);
+  }
+  return new FofaApiError(`FOFA查询执行失败: ${error.message}`, details);
+}
+
+/**
+ * 解析 Retry-After 头（秒数或HTTP日期）
+ * @param header 响应头的值
+ * @returns 要求等待的毫秒数，未设置或无法解析时返回undefined
+ */
+function parseRetryAfter(header: unknown): number | undefined {
+  if (typeof header !== "string" || !header.trim()) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
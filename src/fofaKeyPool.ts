@@ -0,0 +1,198 @@
+/**
+ * FOFA Key Pool - FOFA账户池
+ * 管理多组FOFA凭据：记录每个密钥的剩余F点、查询次数和请求统计，
+ * 按配置顺序选择可用的密钥，某个密钥配额不足或认证失败后跳过该密钥
+ */
+
+import {
+  FofaAccountInfo,
+  FofaCredential,
+  FofaKeyState,
+  FofaKeyStatus,
+} from "./types.js";
+
+interface PoolEntry {
+  credential: FofaCredential;
+  status: FofaKeyStatus;
+  retryAt?: number; // 配额不足的密钥重新尝试的时间（毫秒时间戳）
+}
+
+export class FofaKeyPool {
+  // FOFA的查询配额会按周期恢复，配额不足的密钥在冷却后重新尝试
+  private static readonly EXHAUSTED_COOLDOWN_MS = 60 * 60 * 1000;
+  private entries: PoolEntry[];
+
+  /**
+   * @param credentials 按优先级排列的凭据，重复的API密钥只保留第一个
+   * @throws Error 没有提供任何凭据时抛出
+   */
+  constructor(credentials: FofaCredential[]) {
+    const seen = new Set<string>();
+    this.entries = credentials
+      .filter((credential) => {
+        if (seen.has(credential.apiKey)) {
+          return false;
+        }
+        seen.add(credential.apiKey);
+        return true;
+      })
+      .map((credential) => {
+        const maskedKey = FofaKeyPool.mask(credential.apiKey);
+        return {
+          credential,
+          status: {
+            email: credential.email,
+            maskedKey,
+            label: `${credential.email} (${maskedKey})`,
+            state: "active",
+            requests: 0,
+            consumedFpoints: 0,
+          },
+        };
+      });
+
+    if (this.entries.length === 0) {
+      throw new Error("FOFA账户池中至少需要一组凭据");
+    }
+  }
+
+  /**
+   * 对API密钥脱敏，只保留首尾各4位
+   * @param apiKey API密钥
+   * @returns 脱敏后的密钥
+   */
+  static mask(apiKey: string): string {
+    if (apiKey.length <= 8) {
+      return "*".repeat(apiKey.length);
+    }
+    return `${apiKey.slice(0, 4)}****${apiKey.slice(-4)}`;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * 全部凭据，按配置顺序排列
+   */
+  credentials(): FofaCredential[] {
+    return this.entries.map((entry) => entry.credential);
+  }
+
+  /**
+   * 当前可用的凭据，按配置顺序排列；已知查询次数用完的密钥视为配额不足
+   * @returns 可用的凭据，全部不可用时为空数组
+   */
+  available(): FofaCredential[] {
+    const now = Date.now();
+    return this.entries
+      .filter((entry) => {
+        if (entry.status.state === "exhausted" && now >= (entry.retryAt ?? 0)) {
+          entry.status.state = "active";
+          entry.retryAt = undefined;
+        }
+        return entry.status.state === "active";
+      })
+      .map((entry) => entry.credential);
+  }
+
+  /**
+   * 获取密钥的报告标识（邮箱和脱敏后的密钥）
+   * @param credential 凭据
+   */
+  label(credential: FofaCredential): string {
+    return this.find(credential).status.label;
+  }
+
+  /**
+   * 记录一次成功的请求
+   * @param credential 完成请求的凭据
+   * @param consumedFpoints 本次请求消耗的F点
+   */
+  recordSuccess(credential: FofaCredential, consumedFpoints: number): void {
+    const { status } = this.find(credential);
+    status.requests++;
+    status.consumedFpoints += consumedFpoints;
+    status.lastError = undefined;
+    if (status.remainingPoints !== undefined) {
+      status.remainingPoints = Math.max(
+        0,
+        status.remainingPoints - consumedFpoints
+      );
+    }
+    if (status.remainingQueries !== undefined) {
+      status.remainingQueries = Math.max(0, status.remainingQueries - 1);
+      if (status.remainingQueries === 0) {
+        this.markFailed(credential, "exhausted", "API查询次数已用完");
+      }
+    }
+  }
+
+  /**
+   * 用账户信息更新剩余配额
+   * @param credential 凭据
+   * @param account 该凭据的账户信息
+   */
+  recordAccount(credential: FofaCredential, account: FofaAccountInfo): void {
+    const entry = this.find(credential);
+    const { status } = entry;
+    status.membership = account.membership;
+    status.remainingPoints = account.fofaPoints + account.remainFreePoints;
+    status.remainingQueries = account.remainApiQuery;
+    status.lastError = undefined;
+
+    if (account.remainApiQuery !== undefined && account.remainApiQuery <= 0) {
+      this.markFailed(credential, "exhausted", "API查询次数已用完");
+    } else if (status.state === "exhausted") {
+      status.state = "active";
+      entry.retryAt = undefined;
+    }
+  }
+
+  /**
+   * 记录密钥不可用：配额不足的密钥在冷却后重新尝试，认证失败的密钥不再主动选择
+   * @param credential 凭据
+   * @param state 不可用的原因
+   * @param error 错误信息
+   */
+  markFailed(
+    credential: FofaCredential,
+    state: Exclude<FofaKeyState, "active">,
+    error: string
+  ): void {
+    const entry = this.find(credential);
+    entry.status.state = state;
+    entry.status.lastError = error;
+    entry.retryAt =
+      state === "exhausted"
+        ? Date.now() + FofaKeyPool.EXHAUSTED_COOLDOWN_MS
+        : undefined;
+  }
+
+  /**
+   * 记录与配额和认证无关的错误，不影响密钥的可用状态
+   * @param credential 凭据
+   * @param error 错误信息
+   */
+  recordError(credential: FofaCredential, error: string): void {
+    this.find(credential).status.lastError = error;
+  }
+
+  /**
+   * 账户池状态，按配置顺序排列
+   * @returns 各密钥状态的副本
+   */
+  status(): FofaKeyStatus[] {
+    return this.entries.map((entry) => ({ ...entry.status }));
+  }
+
+  private find(credential: FofaCredential): PoolEntry {
+    const entry = this.entries.find(
+      (item) => item.credential.apiKey === credential.apiKey
+    );
+    if (!entry) {
+      throw new Error("FOFA账户池中没有该凭据");
+    }
+    return entry;
+  }
+}
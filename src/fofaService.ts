@@ -1,6 +1,8 @@
 /**
  * FOFA Service - FOFA服务
- * 封装所有与FOFA API相关的逻辑，包括验证器和执行器
+ * 封装所有与FOFA API相关的逻辑，包括验证器和执行器。
+ * 配置了多组凭据时，请求依次使用账户池中可用的密钥，配额不足或认证失败时自动切换；
+ * 所有请求经由同一个调度器限速，超时、服务端错误和限流时自动重试
  */
 
 import axios from "axios";
@@ -9,40 +11,107 @@ import {
   FofaResult,
   FofaApiResponse,
   FofaQueryParams,
+  FofaQueryValidation,
+  FofaQueryNode,
+  FofaSearchPage,
+  FofaCollectOptions,
+  FofaCollection,
+  FofaCollectStopReason,
+  FofaNextPage,
+  FofaNextApiResponse,
+  FofaNextQueryParams,
+  FofaStreamOptions,
+  FofaStreamSummary,
+  FofaStatsApiResponse,
+  FofaStatsBucket,
+  FofaStatsResult,
+  FofaHostApiResponse,
+  FofaHostPort,
+  FofaHostProfile,
+  FofaAccountApiResponse,
+  FofaAccountInfo,
+  FofaCredential,
+  FofaKeyStatus,
+  RequestStats,
+  QueryPreview,
+  CacheMode,
 } from "./types.js";
+import { FofaQueryParser, FofaQuerySyntaxError } from "./queryParser.js";
+import {
+  FofaFieldCatalog,
+  DEFAULT_RESULT_FIELDS,
+  DEFAULT_STATS_FIELDS,
+} from "./fieldCatalog.js";
+import { ResultCache } from "./resultCache.js";
+import { FofaKeyPool } from "./fofaKeyPool.js";
+import { RequestScheduler } from "./requestScheduler.js";
+import {
+  FofaApiError,
+  FofaAuthError,
+  FofaQuotaError,
+  createFofaError,
+  fofaErrorFromRequest,
+} from "./fofaErrors.js";
+
+/**
+ * 接口响应中与错误和F点消耗相关的公共字段
+ */
+interface FofaApiStatus {
+  error: boolean;
+  errmsg?: string;
+  errcode?: number;
+  consumed_fpoint?: number;
+}
 
 export class FofaService {
   private config: FofaConfig;
+  private cache: ResultCache | null;
+  private keyPool: FofaKeyPool;
+  private scheduler: RequestScheduler;
   private readonly FOFA_API_BASE = "https://fofa.info";
+  private readonly MAX_PAGE_SIZE = 10000;
+  private readonly DEFAULT_TIMEOUT_SECONDS = 30;
 
   constructor(config: FofaConfig) {
     this.config = config;
+    this.cache = config.cache ? new ResultCache(config.cache) : null;
+    this.keyPool = new FofaKeyPool([
+      { email: config.email, apiKey: config.apiKey },
+      ...(config.keys ?? []),
+    ]);
+    this.scheduler = new RequestScheduler({
+      concurrency: config.concurrency,
+      requestsPerSecond: config.requestsPerSecond,
+      maxRetries: config.maxRetries,
+    });
   }
 
   /**
    * 验证FOFA查询语法是否合法
    * @param query FOFA查询字符串
-   * @returns boolean 是否合法
+   * @returns FofaQueryValidation 校验结果，合法时包含语法树，不合法时包含错误信息和列号
    */
-  private validateQuery(query: string): boolean {
-    if (!query || query.trim().length === 0) {
-      return false;
+  validateQuery(query: string): FofaQueryValidation {
+    try {
+      return { valid: true, ast: this.parseQuery(query) };
+    } catch (error) {
+      if (error instanceof FofaQuerySyntaxError) {
+        return { valid: false, error: error.message, column: error.column };
+      }
+      throw error;
     }
+  }
 
-    // 基本的语法检查
-    // 检查是否包含基本的FOFA语法元素
-    const hasValidSyntax = /[=:]/.test(query) || /\w+/.test(query);
-
-    // 检查引号是否配对
-    const quotes = query.match(/"/g);
-    const quotesBalanced = !quotes || quotes.length % 2 === 0;
-
-    // 检查括号是否配对
-    const openParens = (query.match(/\(/g) || []).length;
-    const closeParens = (query.match(/\)/g) || []).length;
-    const parensBalanced = openParens === closeParens;
-
-    return hasValidSyntax && quotesBalanced && parensBalanced;
+  /**
+   * 解析查询并按字段目录校验字段、操作符和取值
+   * @param query FOFA查询字符串
+   * @returns FofaQueryNode 语法树
+   * @throws FofaQuerySyntaxError 语法错误；FofaQueryFieldError 字段校验错误
+   */
+  private parseQuery(query: string): FofaQueryNode {
+    const ast = FofaQueryParser.parse(query);
+    FofaFieldCatalog.validate(ast, query);
+    return ast;
   }
 
   /**
@@ -50,82 +119,792 @@ export class FofaService {
    * @param query FOFA查询字符串
    * @param size 返回结果数量，默认100
    * @param page 页码，默认1
-   * @returns Promise<FofaResult[]> 查询结果数组
+   * @param fields 返回字段列表，默认 ip,port,title,host
+   * @param cacheMode 本地缓存策略，默认优先读取缓存
+   * @returns Promise<FofaResult[]> 查询结果数组，每条结果的键与请求的字段一致
+   * @throws FofaQuerySyntaxError 查询语法或字段不合法时抛出（不会发起网络请求）
    */
   async executeFofaQuery(
     query: string,
     size: number = 100,
-    page: number = 1
+    page: number = 1,
+    fields: string[] = DEFAULT_RESULT_FIELDS,
+    cacheMode: CacheMode = "default"
   ): Promise<FofaResult[]> {
-    // 验证查询语法
-    if (!this.validateQuery(query)) {
-      throw new Error(`无效的FOFA查询语法: ${query}`);
+    const searchPage = await this.searchPage(
+      query,
+      size,
+      page,
+      fields,
+      cacheMode
+    );
+    return searchPage.results;
+  }
+
+  /**
+   * 查询单页结果，并返回FOFA报告的总数和F点消耗等元数据
+   * @param query FOFA查询字符串
+   * @param size 每页数量，默认100
+   * @param page 页码，默认1
+   * @param fields 返回字段列表，默认 ip,port,title,host
+   * @returns Promise<FofaSearchPage> 单页结果及元数据
+   * @throws FofaQuerySyntaxError 查询语法或字段不合法时抛出（不会发起网络请求）
+   */
+  async searchPage(
+    query: string,
+    size: number = 100,
+    page: number = 1,
+    fields: string[] = DEFAULT_RESULT_FIELDS,
+    cacheMode: CacheMode = "default"
+  ): Promise<FofaSearchPage> {
+    // 验证查询语法和字段，错误在发起网络请求前直接抛出
+    this.parseQuery(query);
+    const resultFields = FofaFieldCatalog.normalizeResultFields(fields);
+
+    // 命中未过期的本地缓存时直接返回，不消耗F点
+    if (this.cache && cacheMode === "default") {
+      const entry = await this.cache.get(query, resultFields, size, page);
+      if (entry) {
+        return {
+          ...entry.value,
+          consumedFpoint: 0,
+          cached: true,
+          cachedAt: entry.createdAt,
+          servedBy: undefined,
+          requestStats: undefined,
+        };
+      }
     }
 
-    try {
-      // 将查询字符串转换为Base64编码
-      const qbase64 = Buffer.from(query, "utf-8").toString("base64");
-
-      // 构建查询参数
-      const params: FofaQueryParams = {
-        email: this.config.email,
-        key: this.config.apiKey,
-        qbase64: qbase64,
-        fields: "ip,port,title,host",
-        size: size,
-        page: page,
-      };
+    // 将查询字符串转换为Base64编码
+    const qbase64 = Buffer.from(query, "utf-8").toString("base64");
 
-      // 调用FOFA API
-      const response = await axios.get<FofaApiResponse>(
-        `${this.FOFA_API_BASE}/api/v1/search/all`,
-        {
-          params: params,
-          timeout: 30000,
+    // 构建查询参数
+    const params: FofaQueryParams = {
+      qbase64: qbase64,
+      fields: resultFields.join(","),
+      size: size,
+      page: page,
+    };
+
+    const { data, servedBy, requestStats } = await this.requestApi<FofaApiResponse>(
+      "/api/v1/search/all",
+      params
+    );
+
+    // 转换结果格式
+    const searchPage: FofaSearchPage = {
+      results: this.transformResults(data.results, resultFields),
+      total: data.size ?? 0,
+      page: data.page ?? page,
+      consumedFpoint: data.consumed_fpoint ?? 0,
+      requiredFpoints: data.required_fpoints ?? 0,
+      servedBy,
+      requestStats,
+    };
+
+    // 缓存写入失败不影响本次查询结果
+    if (this.cache && cacheMode !== "bypass") {
+      await this.cache
+        .set(query, resultFields, size, page, searchPage)
+        .catch(() => undefined);
+    }
+
+    return searchPage;
+  }
+
+  /**
+   * 使用 search/next 游标接口查询一批结果，适用于超出翻页范围的大结果集
+   * @param query FOFA查询字符串
+   * @param size 本批数量，默认1000
+   * @param next 上一批返回的游标，首批不传
+   * @param fields 返回字段列表，默认 ip,port,title,host
+   * @returns Promise<FofaNextPage> 本批结果及下一批游标
+   * @throws FofaQuerySyntaxError 查询语法或字段不合法时抛出（不会发起网络请求）
+   */
+  async searchNext(
+    query: string,
+    size: number = 1000,
+    next?: string,
+    fields: string[] = DEFAULT_RESULT_FIELDS
+  ): Promise<FofaNextPage> {
+    this.parseQuery(query);
+    const resultFields = FofaFieldCatalog.normalizeResultFields(fields);
+
+    const params: FofaNextQueryParams = {
+      qbase64: Buffer.from(query, "utf-8").toString("base64"),
+      fields: resultFields.join(","),
+      size: size,
+      next: next,
+    };
+
+    const { data, servedBy, requestStats } = await this.requestApi<FofaNextApiResponse>(
+      "/api/v1/search/next",
+      params
+    );
+
+    return {
+      results: this.transformResults(data.results, resultFields),
+      total: data.size ?? 0,
+      next: data.next || null,
+      consumedFpoint: data.consumed_fpoint ?? 0,
+      servedBy,
+      requestStats,
+    };
+  }
+
+  /**
+   * 调用 search/stats 聚合接口，获取查询结果在指定字段上的分布
+   * @param query FOFA查询字符串
+   * @param fields 聚合字段，默认 country,port,server
+   * @returns Promise<FofaStatsResult> 聚合结果，每个字段的桶按数量降序排列
+   * @throws FofaQuerySyntaxError 查询语法或字段不合法时抛出（不会发起网络请求）
+   */
+  async searchStats(
+    query: string,
+    fields: string[] = DEFAULT_STATS_FIELDS
+  ): Promise<FofaStatsResult> {
+    this.parseQuery(query);
+    const statsFields = FofaFieldCatalog.normalizeStatsFields(fields);
+
+    const { data, servedBy, requestStats } = await this.requestApi<FofaStatsApiResponse>(
+      "/api/v1/search/stats",
+      {
+        qbase64: Buffer.from(query, "utf-8").toString("base64"),
+        fields: statsFields.join(","),
+      }
+    );
+
+    const aggregations: Record<string, FofaStatsBucket[]> = {};
+    Object.entries(data.aggs ?? {}).forEach(([field, buckets]) => {
+      aggregations[field] = (buckets ?? [])
+        .map((bucket) => ({
+          name: String(bucket.name ?? ""),
+          count: Number(bucket.count) || 0,
+        }))
+        .sort((a, b) => b.count - a.count);
+    });
+
+    return {
+      query,
+      total: data.size ?? 0,
+      distinct: data.distinct ?? {},
+      aggregations,
+      lastUpdateTime: data.lastupdatetime,
+      consumedFpoint: data.consumed_fpoint ?? 0,
+      servedBy,
+      requestStats,
+    };
+  }
+
+  /**
+   * 调用 host 聚合接口，获取单个IP的端口、协议、产品和更新时间
+   * @param ip IP地址
+   * @returns Promise<FofaHostProfile> 主机画像
+   * @throws Error IP地址不合法时抛出（不会发起网络请求）
+   */
+  async lookupHost(ip: string): Promise<FofaHostProfile> {
+    const target = ip.trim();
+    if (!FofaFieldCatalog.isIpAddress(target)) {
+      throw new Error(`无效的IP地址: ${ip}`);
+    }
+
+    const { data, servedBy, requestStats } = await this.requestApi<FofaHostApiResponse>(
+      `/api/v1/host/${encodeURIComponent(target)}`,
+      { detail: true }
+    );
+
+    // detail=true 时使用端口明细，否则退回到端口和协议列表
+    const ports: FofaHostPort[] = data.ports
+      ? data.ports.map((item) => ({
+          port: Number(item.port),
+          protocol: item.protocol ?? "",
+          products: (item.products ?? []).map((product) => product.product),
+          updateTime: item.update_time,
+        }))
+      : (data.port ?? []).map((port) => ({
+          port: Number(port),
+          protocol: "",
+          products: [],
+        }));
+    ports.sort((a, b) => a.port - b.port);
+
+    const unique = (values: Array<string | undefined>): string[] => [
+      ...new Set(values.filter((value): value is string => !!value)),
+    ];
+
+    return {
+      ip: data.ip || target,
+      host: data.host || target,
+      asn: data.asn,
+      org: data.org,
+      countryName: data.country_name,
+      countryCode: data.country_code,
+      ports,
+      protocols: unique([
+        ...(data.protocol ?? []),
+        ...ports.map((item) => item.protocol),
+      ]),
+      products: unique([
+        ...(data.product ?? []),
+        ...ports.flatMap((item) => item.products),
+      ]),
+      categories: unique([
+        ...(data.category ?? []),
+        ...(data.ports ?? []).flatMap((item) =>
+          (item.products ?? []).map((product) => product.category)
+        ),
+      ]),
+      updateTime: data.update_time,
+      servedBy,
+      requestStats,
+    };
+  }
+
+  /**
+   * 调用账户信息接口，获取会员等级、剩余F点和查询配额
+   * @returns Promise<FofaAccountInfo> 当前使用的密钥对应的账户信息
+   */
+  async getAccountInfo(): Promise<FofaAccountInfo> {
+    const { data, credential } =
+      await this.requestApi<FofaAccountApiResponse>("/api/v1/info/my", {});
+
+    const account = this.toAccountInfo(data, credential);
+    this.keyPool.recordAccount(credential, account);
+    return account;
+  }
+
+  /**
+   * 依次查询账户池中每个密钥的账户信息，更新剩余F点和查询次数
+   * @returns Promise<FofaKeyStatus[]> 账户池状态，按配置顺序排列
+   */
+  async refreshKeyPool(): Promise<FofaKeyStatus[]> {
+    for (const credential of this.keyPool.credentials()) {
+      try {
+        const data = await this.scheduler.run(() =>
+          this.sendRequest<FofaAccountApiResponse>(
+            "/api/v1/info/my",
+            {},
+            credential
+          )
+        );
+        this.keyPool.recordAccount(
+          credential,
+          this.toAccountInfo(data, credential)
+        );
+      } catch (error) {
+        const state = this.credentialFailure(error);
+        if (state) {
+          this.keyPool.markFailed(credential, state, (error as Error).message);
+        } else {
+          this.keyPool.recordError(
+            credential,
+            error instanceof Error ? error.message : "未知错误"
+          );
         }
+      }
+    }
+    return this.keyPool.status();
+  }
+
+  /**
+   * 获取账户池状态，不发起请求
+   * @returns FofaKeyStatus[] 账户池状态，按配置顺序排列
+   */
+  keyPoolStatus(): FofaKeyStatus[] {
+    return this.keyPool.status();
+  }
+
+  /**
+   * 将账户信息接口的响应转换为账户信息
+   * @param data 接口返回的数据
+   * @param credential 请求使用的凭据
+   */
+  private toAccountInfo(
+    data: FofaAccountApiResponse,
+    credential: FofaCredential
+  ): FofaAccountInfo {
+    return {
+      email: data.email ?? credential.email,
+      username: data.username ?? "",
+      isVip: !!data.isvip,
+      vipLevel: data.vip_level ?? 0,
+      membership: this.describeMembership(data.vip_level ?? 0, !!data.isvip),
+      fofaPoints: data.fofa_point ?? 0,
+      remainFreePoints: data.remain_free_point ?? 0,
+      // 部分账户不返回查询次数和数据条数，保持未知而不是视为已用完
+      remainApiQuery: data.remain_api_query,
+      remainApiData: data.remain_api_data,
+      servedBy: this.keyPool.label(credential),
+    };
+  }
+
+  /**
+   * 获取会员等级名称
+   * @param vipLevel FOFA返回的会员等级
+   * @param isVip 是否为会员
+   * @returns 会员等级名称
+   */
+  private describeMembership(vipLevel: number, isVip: boolean): string {
+    if (!isVip) {
+      return "注册用户";
+    }
+
+    switch (vipLevel) {
+      case 1:
+        return "普通会员";
+      case 2:
+        return "高级会员";
+      case 3:
+        return "企业会员";
+      case 4:
+        return "专业版";
+      case 5:
+        return "商业版";
+      case 6:
+        return "企业版";
+      default:
+        return `会员(等级${vipLevel})`;
+    }
+  }
+
+  /**
+   * 以异步迭代器的形式逐条输出结果，内部按游标分批拉取，
+   * 调用方无需一次性在内存中保存全部结果
+   * @param query FOFA查询字符串
+   * @param options 流式读取选项
+   * @returns AsyncGenerator<FofaResult> 结果迭代器
+   *
+   * @example
+   * for await (const result of fofaService.streamResults(query, { limit: 50000 })) {
+   *   process.stdout.write(JSON.stringify(result) + "\n");
+   * }
+   */
+  async *streamResults(
+    query: string,
+    options: FofaStreamOptions = {}
+  ): AsyncGenerator<FofaResult, FofaStreamSummary> {
+    const limit = options.limit ?? Infinity;
+    const batchSize = Math.min(
+      options.batchSize ?? 1000,
+      this.MAX_PAGE_SIZE
+    );
+    const summary: FofaStreamSummary = {
+      batchesFetched: 0,
+      consumedFpoints: 0,
+      total: 0,
+      streamed: 0,
+      keysUsed: [],
+      requestStats: { retries: 0, waitMs: 0 },
+    };
+    let cursor: string | undefined;
+
+    while (summary.streamed < limit) {
+      const batch = await this.searchNext(
+        query,
+        Math.min(batchSize, limit - summary.streamed),
+        cursor,
+        options.fields
       );
+      summary.batchesFetched++;
+      summary.consumedFpoints += batch.consumedFpoint;
+      summary.total = batch.total;
+      if (!summary.keysUsed.includes(batch.servedBy)) {
+        summary.keysUsed.push(batch.servedBy);
+      }
+      summary.requestStats.retries += batch.requestStats.retries;
+      summary.requestStats.waitMs += batch.requestStats.waitMs;
+      options.onBatch?.(batch, summary);
+
+      for (const result of batch.results) {
+        if (summary.streamed >= limit) {
+          break;
+        }
+        summary.streamed++;
+        yield result;
+      }
 
-      // 检查API响应是否有错误
-      if (response.data.error) {
-        throw new Error("FOFA API返回错误，请检查查询语法或API配置");
+      // 没有更多数据或游标未前进时结束
+      if (batch.results.length === 0 || !batch.next || batch.next === cursor) {
+        break;
       }
+      cursor = batch.next;
+    }
+
+    return summary;
+  }
+
+  /**
+   * 调用FOFA API：依次使用账户池中可用的密钥，配额不足或认证失败时切换到下一个密钥
+   * @param path 接口路径
+   * @param params 查询参数（不含凭据）
+   * @returns 接口返回的数据、完成请求的凭据及其报告标识，以及重试次数和等待时间
+   * @throws Error 所有密钥均失败、重试次数用完或发生与凭据无关的错误时抛出
+   */
+  private async requestApi<T extends FofaApiStatus>(
+    path: string,
+    params: object
+  ): Promise<{
+    data: T;
+    credential: FofaCredential;
+    servedBy: string;
+    requestStats: RequestStats;
+  }> {
+    // 所有密钥都不可用时仍然依次重试，账户可能已经充值或恢复了配额
+    const available = this.keyPool.available();
+    const candidates =
+      available.length > 0 ? available : this.keyPool.credentials();
+
+    const requestStats: RequestStats = { retries: 0, waitMs: 0 };
+    let lastError: FofaApiError | undefined;
+    for (const credential of candidates) {
+      try {
+        const data = await this.scheduler.run(
+          () => this.sendRequest<T>(path, params, credential),
+          requestStats
+        );
+        this.keyPool.recordSuccess(credential, data.consumed_fpoint ?? 0);
+        return {
+          data,
+          credential,
+          servedBy: this.keyPool.label(credential),
+          requestStats,
+        };
+      } catch (error) {
+        const state = this.credentialFailure(error);
+        if (!state) {
+          this.keyPool.recordError(
+            credential,
+            error instanceof Error ? error.message : "未知错误"
+          );
+          throw error;
+        }
+        this.keyPool.markFailed(credential, state, (error as Error).message);
+        lastError = error as FofaApiError;
+      }
+    }
 
-      // 转换结果格式
-      return this.transformResults(response.data.results);
+    // 保留最后一个错误的类型，多组凭据时在信息中注明尝试过的密钥数量
+    if (this.keyPool.size > 1) {
+      lastError!.message += `（已尝试账户池中的 ${candidates.length} 个密钥）`;
+    }
+    throw lastError!;
+  }
+
+  /**
+   * 判断错误是否与所用凭据有关，认证失败和配额不足时切换到下一个密钥
+   * @param error 请求错误
+   * @returns 密钥应标记的状态，与凭据无关时返回null
+   */
+  private credentialFailure(error: unknown): "invalid" | "exhausted" | null {
+    if (error instanceof FofaAuthError) {
+      return "invalid";
+    }
+    if (error instanceof FofaQuotaError) {
+      return "exhausted";
+    }
+    return null;
+  }
+
+  /**
+   * 使用指定凭据调用FOFA API并统一处理错误
+   * @param path 接口路径
+   * @param params 查询参数（不含凭据）
+   * @param credential 使用的凭据
+   * @returns Promise<T> 接口返回的数据
+   * @throws FofaApiError 按错误码、错误信息和HTTP状态码归类的错误，
+   *         超时、服务端错误和限流的错误可由调度器重试
+   */
+  private async sendRequest<T extends FofaApiStatus>(
+    path: string,
+    params: object,
+    credential: FofaCredential
+  ): Promise<T> {
+    let data: T;
+    try {
+      // 调用FOFA API
+      const response = await axios.get<T>(`${this.FOFA_API_BASE}${path}`, {
+        params: { ...params, email: credential.email, key: credential.apiKey },
+        timeout:
+          (this.config.timeoutSeconds ?? this.DEFAULT_TIMEOUT_SECONDS) * 1000,
+      });
+      data = response.data;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 401) {
-          throw new Error("FOFA API认证失败，请检查email和API key配置");
-        } else if (error.response?.status === 403) {
-          throw new Error("FOFA API访问被拒绝，可能是查询配额不足");
-        } else if (error.code === "ECONNABORTED") {
-          throw new Error("FOFA API请求超时，请稍后重试");
+      throw fofaErrorFromRequest(error);
+    }
+
+    // 检查API响应是否有错误，按错误码和错误信息归类
+    if (data.error) {
+      throw createFofaError(data.errmsg, { code: data.errcode });
+    }
+    return data;
+  }
+
+  /**
+   * 执行前预览：解析查询结构，并发送只取1条数据的预检请求，
+   * 得到结果总数和单条F点消耗，据此估算完整查询的消耗。
+   * 实际执行时的第一页已在本地缓存中时直接据此估算，不发起请求；
+   * 预检结果同样写入缓存，重复预览同一查询不再消耗API查询次数
+   * @param query FOFA查询字符串
+   * @param expectedSize 计划获取的结果数量
+   * @param fields 返回字段列表（不同字段的消耗可能不同）
+   * @param cacheMode 本地结果缓存策略，与实际执行时一致
+   * @param firstPageSize 实际执行时第一页的每页数量，用于查找已缓存的第一页
+   * @returns Promise<QueryPreview> 查询预览
+   * @throws FofaQuerySyntaxError 查询语法或字段不合法时抛出（不会发起网络请求）
+   */
+  async previewQuery(
+    query: string,
+    expectedSize: number,
+    fields: string[] = DEFAULT_RESULT_FIELDS,
+    cacheMode: CacheMode = "default",
+    firstPageSize?: number
+  ): Promise<QueryPreview> {
+    const ast = this.parseQuery(query);
+    const resultFields = FofaFieldCatalog.normalizeResultFields(fields);
+
+    const cachedFirstPage =
+      this.cache && cacheMode === "default" && firstPageSize !== undefined
+        ? await this.cache.get(query, resultFields, firstPageSize, 1)
+        : null;
+    const probe = cachedFirstPage
+      ? cachedFirstPage.value
+      : await this.searchPage(query, 1, 1, resultFields, cacheMode);
+
+    const perResultFpoints = this.perResultFpoints(probe);
+    const expectedResults = Math.min(expectedSize, probe.total);
+    const estimatedFpoints = Math.ceil(perResultFpoints * expectedResults);
+    const threshold = this.config.confirmFpointThreshold;
+
+    return {
+      query,
+      ast,
+      estimate: {
+        total: probe.total,
+        expectedResults,
+        perResultFpoints,
+        estimatedFpoints,
+        probeConsumedFpoints: cachedFirstPage ? 0 : probe.consumedFpoint,
+      },
+      threshold,
+      requiresConfirmation:
+        threshold !== undefined && estimatedFpoints > threshold,
+    };
+  }
+
+  /**
+   * 自动翻页收集结果，直到达到目标数量、取完FOFA报告的总数或触及F点上限
+   * @param query FOFA查询字符串
+   * @param options 收集选项
+   * @returns Promise<FofaCollection> 去重后的结果及收集摘要
+   */
+  async collectResults(
+    query: string,
+    options: FofaCollectOptions
+  ): Promise<FofaCollection> {
+    const target = Math.max(1, options.target);
+    const pageSize = Math.min(
+      options.pageSize ?? Math.min(target, 100),
+      this.MAX_PAGE_SIZE
+    );
+    const fields = FofaFieldCatalog.normalizeResultFields(options.fields);
+
+    const seen = new Set<string>();
+    const results: FofaResult[] = [];
+    let pagesFetched = 0;
+    let consumedFpoints = 0;
+    let lastPageCost = 0;
+    let duplicatesRemoved = 0;
+    let cachedPages = 0;
+    let total = 0;
+    const keysUsed: string[] = [];
+    const requestStats: RequestStats = { retries: 0, waitMs: 0 };
+    let stopReason: FofaCollectStopReason;
+
+    for (let page = 1; ; page++) {
+      if (options.maxPages !== undefined && pagesFetched >= options.maxPages) {
+        stopReason = "max_pages";
+        break;
+      }
+      // 第一页没有上一页的消耗可供参考：上限为0时不发起请求，
+      // 否则先用只取1条的预检估算第一页的消耗，超出上限则停止
+      if (options.maxFpoints !== undefined && pagesFetched === 0) {
+        if (options.maxFpoints <= 0) {
+          stopReason = "budget";
+          break;
+        }
+        const probe = await this.probeFirstPage(
+          query,
+          pageSize,
+          fields,
+          options.cacheMode
+        );
+        if (probe) {
+          consumedFpoints += probe.page.consumedFpoint;
+          total = probe.page.total;
+          if (probe.page.servedBy) {
+            keysUsed.push(probe.page.servedBy);
+          }
+          if (probe.page.requestStats) {
+            requestStats.retries += probe.page.requestStats.retries;
+            requestStats.waitMs += probe.page.requestStats.waitMs;
+          }
+          if (consumedFpoints + probe.estimatedFpoints > options.maxFpoints) {
+            stopReason = "budget";
+            break;
+          }
         }
       }
+      // 以上一页的消耗估算下一页，超出上限则停止
+      if (
+        options.maxFpoints !== undefined &&
+        pagesFetched > 0 &&
+        consumedFpoints + lastPageCost > options.maxFpoints
+      ) {
+        stopReason = "budget";
+        break;
+      }
 
-      throw new Error(
-        `FOFA查询执行失败: ${
-          error instanceof Error ? error.message : "未知错误"
-        }`
+      const searchPage = await this.searchPage(
+        query,
+        pageSize,
+        page,
+        fields,
+        options.cacheMode
       );
+      pagesFetched++;
+      if (searchPage.cached) {
+        cachedPages++;
+      }
+      if (searchPage.servedBy && !keysUsed.includes(searchPage.servedBy)) {
+        keysUsed.push(searchPage.servedBy);
+      }
+      if (searchPage.requestStats) {
+        requestStats.retries += searchPage.requestStats.retries;
+        requestStats.waitMs += searchPage.requestStats.waitMs;
+      }
+      lastPageCost = searchPage.consumedFpoint;
+      consumedFpoints += searchPage.consumedFpoint;
+      total = searchPage.total;
+
+      for (const result of searchPage.results) {
+        const key = this.resultKey(result);
+        if (seen.has(key)) {
+          duplicatesRemoved++;
+          continue;
+        }
+        seen.add(key);
+        results.push(result);
+      }
+
+      if (results.length >= target) {
+        stopReason = "target";
+        break;
+      }
+      if (page * pageSize >= total) {
+        stopReason = "total";
+        break;
+      }
+      if (searchPage.results.length < pageSize) {
+        stopReason = "exhausted";
+        break;
+      }
+    }
+
+    const collected = results.slice(0, target);
+    return {
+      results: collected,
+      summary: {
+        pagesFetched,
+        consumedFpoints,
+        total,
+        collected: collected.length,
+        duplicatesRemoved,
+        cachedPages,
+        truncated: stopReason === "budget" || stopReason === "max_pages",
+        stopReason,
+        keysUsed,
+        requestStats,
+      },
+    };
+  }
+
+  /**
+   * 用只取1条的预检估算自动翻页第一页的F点消耗
+   * @param query FOFA查询字符串
+   * @param pageSize 每页数量
+   * @param fields 返回字段列表
+   * @param cacheMode 本地结果缓存策略
+   * @returns 预检结果及第一页的预计消耗，第一页已在本地缓存中（不消耗F点）时返回null
+   */
+  private async probeFirstPage(
+    query: string,
+    pageSize: number,
+    fields: string[],
+    cacheMode: CacheMode = "default"
+  ): Promise<{ page: FofaSearchPage; estimatedFpoints: number } | null> {
+    if (
+      this.cache &&
+      cacheMode === "default" &&
+      (await this.cache.get(query, fields, pageSize, 1))
+    ) {
+      return null;
+    }
+
+    const page = await this.searchPage(query, 1, 1, fields, cacheMode);
+    return {
+      page,
+      estimatedFpoints: Math.ceil(
+        this.perResultFpoints(page) * Math.min(pageSize, page.total)
+      ),
+    };
+  }
+
+  /**
+   * 按一页结果的F点消耗计算单条结果的消耗
+   * @param page 单页结果
+   */
+  private perResultFpoints(page: FofaSearchPage): number {
+    return (
+      Math.max(page.requiredFpoints, page.consumedFpoint) /
+      Math.max(page.results.length, 1)
+    );
+  }
+
+  /**
+   * 计算用于去重的结果标识：优先使用 host/ip/port，其余情况使用整行内容
+   * @param result 单条结果
+   * @returns 去重键
+   */
+  private resultKey(result: FofaResult): string {
+    if (result.ip || result.host) {
+      return `${result.host ?? ""}|${result.ip ?? ""}:${result.port ?? ""}`;
     }
+    return JSON.stringify(result);
   }
 
   /**
-   * 将FOFA API返回的原始数据转换为结构化对象
+   * 将FOFA API返回的原始数据按请求的字段列表转换为结构化对象
    * @param rawResults FOFA API返回的原始结果数组
+   * @param fields 请求的返回字段，顺序与原始结果中的列一致
    * @returns FofaResult[] 结构化的结果数组
    */
-  private transformResults(rawResults: string[][]): FofaResult[] {
+  private transformResults(
+    rawResults: string[][] | string[],
+    fields: string[]
+  ): FofaResult[] {
     if (!rawResults || rawResults.length === 0) {
       return [];
     }
 
-    return rawResults.map((result) => ({
-      ip: result[0] || "",
-      port: result[1] || "",
-      title: result[2] || "",
-      host: result[3] || "",
-    }));
+    return rawResults.map((row) => {
+      // 只请求一个字段时，FOFA返回的每条结果是字符串而不是数组
+      const values = Array.isArray(row) ? row : [row];
+      const result: FofaResult = {};
+      fields.forEach((field, index) => {
+        result[field] = String(values[index] ?? "");
+      });
+      return result;
+    });
   }
 }
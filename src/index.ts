@@ -7,8 +7,44 @@
 
 import * as dotenv from "dotenv";
 import { parseArgs } from "util";
-import { Orchestrator } from "./orchestrator.js";
-import { LLMConfig, FofaConfig } from "./types.js";
+import * as readline from "readline/promises";
+import { mkdir, writeFile } from "fs/promises";
+import * as path from "path";
+import {
+  Orchestrator,
+  CollectOptions,
+  ExecutionOptions,
+} from "./orchestrator.js";
+import { ResultExporter, ResultStreamWriter } from "./resultExporter.js";
+import { FofaFieldCatalog } from "./fieldCatalog.js";
+import { ResultPresenter } from "./resultPresenter.js";
+import { TargetListBuilder } from "./targetList.js";
+import { ResultCache, DEFAULT_CACHE_TTL_SECONDS } from "./resultCache.js";
+import { TranslationCache } from "./translationCache.js";
+import { QueryHistory, DEFAULT_HISTORY_LIMIT } from "./queryHistory.js";
+import { WatchStore, DEFAULT_WATCH_TARGET } from "./watchStore.js";
+import { ResultDiff, DIFF_FORMATS, DIFF_KEYS } from "./resultDiff.js";
+import { ConsoleReporter } from "./reporter.js";
+import {
+  SettingsLoader,
+  SettingsError,
+  SETTINGS_CLI_OPTIONS,
+  SettingsCliValues,
+} from "./settings.js";
+import {
+  LLMConfig,
+  FofaConfig,
+  QueryPreview,
+  ExportFormat,
+  ProcessResult,
+  QueryHistoryRecord,
+  DiffFormat,
+  DiffKey,
+  SavedQuery,
+  WatchReport,
+  Reporter,
+  Settings,
+} from "./types.js";
 
 // 加载环境变量
 dotenv.config();
@@ -24,10 +60,54 @@ function showHelp(): void {
   nl2fofa [查询内容]                       # 自然语言查询
   nl2fofa --direct [FOFA查询语句]          # 直接FOFA查询
   nl2fofa [选项] [查询内容]
+  nl2fofa stats [选项] [查询内容]          # 聚合统计（分布排名，不返回资产明细）
+  nl2fofa host <IP地址>                    # 查询单个IP的主机画像
+  nl2fofa doctor                           # 检查FOFA账户、剩余配额和LLM接口（同 --check）
+  nl2fofa keys                             # 查看FOFA账户池中各密钥的状态、剩余F点和查询次数
+  nl2fofa cache list                       # 列出本地结果缓存
+  nl2fofa cache inspect <ID>               # 查看缓存条目及缓存的结果
+  nl2fofa cache purge [ID] [--expired]     # 删除缓存条目（全部、指定ID或唯一的ID前缀、仅已过期的），不带参数时同时清空翻译缓存
+  nl2fofa history [搜索词]                 # 查看查询历史
+  nl2fofa replay <ID> [选项]               # 重新执行历史查询（可用 --fields、--collect、-o 等覆盖原参数）
+  nl2fofa watch add <名称> <查询内容>      # 保存监控查询（可配合 -d、--fields、--collect）
+  nl2fofa watch list                       # 列出监控查询
+  nl2fofa watch remove <名称>              # 删除监控查询及其快照
+  nl2fofa watch run [名称...]              # 重新运行监控查询，与上次快照对比新增、消失和标题变化的资产
+  nl2fofa diff <旧文件> <新文件>           # 离线对比两个导出的结果文件（json、ndjson、csv），不调用API
 
 选项:
   -h, --help                          显示帮助信息
   -d, --direct                        直接FOFA查询模式
+      --check                         检查配置（同 doctor 子命令）
+  -f, --fields <字段列表>             返回字段，逗号分隔（默认 ip,port,title,host）
+  -c, --collect <数量>                自动翻页收集，直到达到指定数量或取完全部结果
+      --page-size <数量>              自动翻页时每页数量（默认100，最大10000）
+      --max-fpoints <F点>             自动翻页时的F点消耗上限（第一页前先发送一次只取1条的预检估算消耗）
+      --stream <数量>                 通过游标接口流式导出结果为NDJSON（每行一条JSON），0表示读取全部
+      --by <字段列表>                 stats 子命令的聚合字段，逗号分隔（默认 country,port,server）
+  -o, --output <文件>                 将完整结果导出到文件（也可用于 --stream）
+      --format <格式>                 导出格式：csv、json、ndjson、html（默认按文件扩展名推断），
+                                      或扫描目标列表：ip-port、url、nmap、domain
+                                      与 --stream 一起使用且未指定 --output 时写入标准输出
+                                      watch run 和 diff 的报告格式：text（默认）、json、markdown
+      --key <匹配键>                  diff 子命令匹配记录的键：ip:port（默认）、host、ip
+      --no-cache                      不读取也不写入本地结果缓存
+      --refresh                       忽略已有缓存重新查询，并更新缓存
+      --dry-run                       只显示查询语句、查询结构和预计F点消耗，不执行查询
+                                      （预估会发送一次只取1条的预检查询，消耗一次API查询次数，
+                                      第一页或预检结果已缓存时不再请求）
+  -y, --yes                           预计F点消耗超过确认阈值时不再询问，直接执行
+      --limit <数量>                  history 子命令最多显示的记录数（默认${DEFAULT_HISTORY_LIMIT}）
+
+配置（优先级：环境变量 > 命令行参数 > 配置文件中的档案 > 配置文件顶层）:
+      --config <文件>                 配置文件（默认 ~/.config/nl2fofa/config.json，不存在时忽略）
+      --profile <档案>                使用配置文件中的档案（默认为配置文件的 defaultProfile）
+      --model <模型>                  LLM模型名称
+      --temperature <数值>            LLM采样温度，0到2（默认0.1）
+      --max-tokens <数量>             LLM最大输出token数（默认500）
+      --thinking-budget <数量>        LLM思考token预算，0表示关闭思考（默认不发送）
+      --llm-timeout <秒>              LLM请求超时时间（默认300）
+      --fofa-timeout <秒>             FOFA请求超时时间（默认30）
 
 示例:
   # 自然语言查询
@@ -35,65 +115,658 @@ function showHelp(): void {
   nl2fofa "查找运行在80端口的nginx服务器"
 
   # 直接FOFA查询
-  nl2fofa --direct "server:Apache"
-  nl2fofa --direct "port:80 && server:nginx"
-  nl2fofa -d "title:登录"
+  nl2fofa --direct 'server="Apache"'
+  nl2fofa --direct 'port="80" && server="nginx"'
+  nl2fofa -d 'title="登录"'
+
+  # 指定返回字段
+  nl2fofa -d 'app="Jenkins"' --fields ip,port,country,server,lastupdatetime
+
+  # 自动翻页收集1000条结果，最多消耗500 F点
+  nl2fofa -d 'app="Jenkins"' --collect 1000 --max-fpoints 500
+
+  # 导出结果到文件
+  nl2fofa -d 'app="Jenkins"' --collect 1000 --output jenkins.csv
+  nl2fofa "查找暴露在公网的Jenkins" -o report.html
+  nl2fofa -d 'app="Jenkins"' --stream 0 -o jenkins.out --format ndjson
+
+  # 导出扫描目标列表
+  nl2fofa -d 'app="Jenkins"' --collect 1000 -o targets.txt --format url
+  nl2fofa -d 'app="Jenkins"' --stream 5000 --format url | httpx -silent
+
+  # 预览查询结构和F点消耗，不执行
+  nl2fofa "查找暴露在公网的Jenkins" --collect 5000 --dry-run
+
+  # 流式导出10万条结果到文件（进度信息输出到stderr）
+  nl2fofa -d 'app="Jenkins"' --stream 100000 > jenkins.ndjson
+
+  # 聚合统计
+  nl2fofa stats "暴露在公网的Jenkins按国家分布"
+  nl2fofa stats -d 'title="后台管理"' --by server,port
+
+  # 主机画像
+  nl2fofa host 1.1.1.1
+
+  # 检查配置和剩余配额
+  nl2fofa doctor
+
+  # 配置多个FOFA密钥，配额不足或认证失败时自动切换
+  FOFA_KEYS='a@example.com:key1,b@example.com:key2' nl2fofa keys
+
+  # 管理本地结果缓存
+  nl2fofa cache list
+  nl2fofa cache purge --expired
+
+  # 查询历史和重放
+  nl2fofa history Jenkins
+  nl2fofa replay 3f9a2c1e --refresh
+
+  # 监控资产变化（退出码：0 无变化，2 有变化，1 执行失败）
+  nl2fofa watch add jenkins -d 'app="Jenkins" && country="CN"' --collect 1000
+  nl2fofa watch run jenkins --format markdown -o jenkins-diff.md
+
+  # 使用配置文件中的档案（账户、模型和查询默认值）
+  nl2fofa --profile team-b -d 'app="Jenkins"'
+
+  # 离线对比两次导出的结果（退出码同 watch run）
+  nl2fofa diff jenkins-0601.json jenkins-0701.json --key host --format markdown
 
 环境变量:
-  LLM_API_KEY                         大语言模型API密钥
-  LLM_API_URL                         大语言模型API地址
+  LLM_PROVIDER                        大模型服务商: openai（含兼容接口）、anthropic、gemini、ollama（默认openai）
+  LLM_API_KEY                         大语言模型API密钥（ollama 可不填）
+  LLM_API_URL                         大语言模型API地址（默认使用服务商的官方地址）
+  LLM_MODEL                           模型名称（默认使用服务商的默认模型）
+  LLM_TEMPERATURE                     采样温度，同 --temperature
+  LLM_MAX_TOKENS                      最大输出token数，同 --max-tokens
+  LLM_THINKING_BUDGET                 思考token预算，同 --thinking-budget
+  LLM_TIMEOUT                         LLM请求超时时间（秒），同 --llm-timeout
+  LLM_MAX_REPAIR_ATTEMPTS             生成的查询不合法时最多请求修正的次数（默认2）
+  LLM_CACHE                           设为 off 时不缓存自然语言翻译结果（默认开启）
+  LLM_CACHE_DIR                       翻译缓存目录（默认 ~/.nl2fofa/cache/translations）
   FOFA_EMAIL                          FOFA账户邮箱
   FOFA_API_KEY                        FOFA API密钥
+  FOFA_KEYS                           备用FOFA账户，逗号分隔的 email:key，主账户配额不足或认证失败时按顺序切换
+  FOFA_TIMEOUT                        FOFA请求超时时间（秒），同 --fofa-timeout
+  FOFA_CONCURRENCY                    同时进行的FOFA请求数（默认2）
+  FOFA_RATE_LIMIT                     每秒最多发出的FOFA请求数（默认2）
+  FOFA_MAX_RETRIES                    FOFA请求超时、服务端错误或限流时的最大重试次数（默认3）
+  FOFA_CONFIRM_FPOINTS                预计F点消耗超过该值时需要确认后才执行（默认不确认）
+  FOFA_CACHE_TTL                      本地结果缓存有效期（秒，默认3600，0表示不缓存）
+  FOFA_CACHE_DIR                      本地结果缓存目录（默认 ~/.nl2fofa/cache/results）
+  NL2FOFA_HISTORY                     设为 off 时不记录查询历史（默认开启）
+  NL2FOFA_HISTORY_DIR                 查询历史目录（默认 ~/.nl2fofa/history）
+  NL2FOFA_WATCH_DIR                   监控查询和快照目录（默认 ~/.nl2fofa/watch）
+  NL2FOFA_CONFIG                      配置文件路径，同 --config
+  NL2FOFA_PROFILE                     配置档案，同 --profile
 
 更多信息请查看 README.md
 `);
 }
 
 /**
- * 验证环境变量配置
+ * 检查必需的凭据并生成服务配置，缺少凭据时输出问题并返回null
+ * @param settings 已加载的设置
  */
-function validateEnvironment(): {
+function validateEnvironment(settings: Settings): {
   llmConfig: LLMConfig;
   fofaConfig: FofaConfig;
 } | null {
-  const requiredEnvVars = {
-    LLM_API_KEY: process.env.LLM_API_KEY,
-    FOFA_EMAIL: process.env.FOFA_EMAIL,
-    FOFA_API_KEY: process.env.FOFA_API_KEY,
-  };
+  try {
+    return SettingsLoader.serviceConfig(settings);
+  } catch (error) {
+    if (error instanceof SettingsError) {
+      presentSettingsError(error);
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 输出配置问题
+ * @param error 配置校验错误
+ */
+function presentSettingsError(error: SettingsError): void {
+  console.error(" 配置无效:");
+  error.problems.forEach((problem) => {
+    console.error(`   - ${problem}`);
+  });
+  console.error("\n 请检查 .env 文件（参考 .env.example）或配置文件");
+}
+
+/**
+ * 读取查询历史目录，NL2FOFA_HISTORY 为 off/false/0 时不记录历史
+ */
+function historyDirectory(): string | undefined {
+  const setting = (process.env.NL2FOFA_HISTORY ?? "").toLowerCase();
+  if (["off", "false", "0"].includes(setting)) {
+    return undefined;
+  }
+  return process.env.NL2FOFA_HISTORY_DIR || QueryHistory.defaultDirectory();
+}
+
+/**
+ * 打开查询历史用于查看和重放，不受 NL2FOFA_HISTORY 开关影响
+ */
+function openHistory(): QueryHistory {
+  return new QueryHistory(
+    process.env.NL2FOFA_HISTORY_DIR || QueryHistory.defaultDirectory()
+  );
+}
+
+/**
+ * 查找要重放的历史记录，不存在时退出
+ * @param id 历史记录ID或ID前缀
+ */
+async function loadReplay(id: string): Promise<QueryHistoryRecord> {
+  const record = await openHistory().get(id);
+  if (!record) {
+    console.error(` 未找到历史记录: ${id}`);
+    process.exit(1);
+  }
+  return record;
+}
+
+/**
+ * 记录查询历史，写入失败不影响查询结果；dry-run 未执行查询，不记录
+ * @param mode 输入类型
+ * @param input 用户输入
+ * @param result 处理结果
+ * @param request 查询参数
+ */
+async function recordHistory(
+  mode: "natural" | "direct",
+  input: string,
+  result: ProcessResult,
+  request: { size?: number; collect?: CollectOptions }
+): Promise<void> {
+  const directory = historyDirectory();
+  if (!directory || (result.success && result.preview)) {
+    return;
+  }
+
+  const { collect } = request;
+  await new QueryHistory(directory)
+    .record({
+      source: "cli",
+      mode,
+      input,
+      query: result.query ?? (mode === "direct" ? input : undefined),
+      explanation: result.explanation,
+      fields: result.fields,
+      size: collect ? undefined : request.size,
+      collect: collect && {
+        target: collect.target,
+        pageSize: collect.pageSize,
+        maxFpoints: collect.maxFpoints,
+      },
+      resultCount: result.data?.length ?? result.stream?.streamed ?? 0,
+      consumedFpoints:
+        result.consumedFpoints ?? result.stream?.consumedFpoints ?? 0,
+      success: result.success,
+      error: result.error,
+    })
+    .catch(() => undefined);
+}
+
+/**
+ * 验证环境变量并创建编排器，缺少配置时返回null
+ * @param settings 已加载的设置
+ * @param reporter 进度报告器，默认输出到标准输出
+ */
+function createOrchestrator(
+  settings: Settings,
+  reporter: Reporter = new ConsoleReporter()
+): Orchestrator | null {
+  const config = validateEnvironment(settings);
+  return config
+    ? new Orchestrator(config.llmConfig, config.fofaConfig, reporter)
+    : null;
+}
+
+/**
+ * 显示处理结果：失败时显示错误信息，dry-run 的预览已在执行前显示
+ * @param result 处理结果
+ */
+function presentResult(result: ProcessResult): void {
+  if (!result.success) {
+    ResultPresenter.presentError(
+      result.error ?? "未知错误",
+      result.errorKind
+    );
+    return;
+  }
+
+  if (result.host) {
+    ResultPresenter.presentHostProfile(result.host);
+  } else if (result.stats) {
+    ResultPresenter.presentStats(result.stats, result.explanation);
+  } else if (result.data && !result.preview) {
+    ResultPresenter.presentResults(
+      result.data,
+      result.query,
+      result.explanation,
+      result.fields
+    );
+    if (result.collection) {
+      ResultPresenter.presentCollectionSummary(result.collection);
+    }
+  }
+}
+
+/**
+ * 监控查询命令的参数
+ */
+interface WatchAction {
+  args: string[]; // 操作名及其参数
+  mode: "natural" | "direct";
+  fields?: string[];
+  target?: number;
+  format: DiffFormat;
+  outputPath?: string;
+}
+
+/**
+ * 管理和运行监控查询：add 保存，list 列出，remove 删除，run 运行并与上次快照对比
+ * @param action 监控查询命令的参数
+ * @param settings 已加载的设置
+ * @returns Promise<number> 退出码：0 无变化或执行成功，2 有资产变化，1 执行失败
+ */
+async function manageWatch(
+  action: WatchAction,
+  settings: Settings
+): Promise<number> {
+  const store = new WatchStore(
+    process.env.NL2FOFA_WATCH_DIR || WatchStore.defaultDirectory()
+  );
+  const [operation = "list", name, ...rest] = action.args;
+
+  switch (operation) {
+    case "list":
+      ResultPresenter.presentWatchQueries(await store.list());
+      return 0;
+    case "remove": {
+      if (!name) {
+        console.error(" watch remove 需要提供监控查询名称");
+        return 1;
+      }
+      if (!(await store.remove(name))) {
+        console.error(` 未找到监控查询: ${name}`);
+        return 1;
+      }
+      console.log(`🧹 已删除监控查询 ${name}`);
+      return 0;
+    }
+    case "add": {
+      const input = rest.join(" ");
+      if (!name || !input.trim()) {
+        console.error(" watch add 需要提供名称和查询内容");
+        return 1;
+      }
+      const orchestrator = createOrchestrator(settings);
+      if (!orchestrator) {
+        return 1;
+      }
+      const result = await orchestrator.saveWatchQuery(
+        store,
+        name,
+        input,
+        action.mode,
+        action.fields ?? settings.defaults.fields,
+        action.target ?? DEFAULT_WATCH_TARGET
+      );
+      if (!result.success) {
+        ResultPresenter.presentError(
+          result.error ?? "未知错误",
+          result.errorKind
+        );
+        return 1;
+      }
+      console.log(`✅ 已保存监控查询 ${name}: ${result.query}`);
+      console.log(`📝 查询说明: ${result.explanation}`);
+      return 0;
+    }
+    case "run": {
+      const names = action.args.slice(1);
+      const queries: SavedQuery[] = [];
+      if (names.length === 0) {
+        queries.push(...(await store.list()));
+      }
+      for (const watchName of names) {
+        const query = await store.get(watchName);
+        if (!query) {
+          console.error(` 未找到监控查询: ${watchName}`);
+          return 1;
+        }
+        queries.push(query);
+      }
+      if (queries.length === 0) {
+        console.error(" 还没有保存任何监控查询，请先使用 nl2fofa watch add 添加");
+        return 1;
+      }
+
+      // 标准输出留给报告，进度写入标准错误输出
+      const orchestrator = createOrchestrator(
+        settings,
+        new ConsoleReporter("stderr")
+      );
+      if (!orchestrator) {
+        return 1;
+      }
+
+      // 逐个运行，某个查询失败不影响其他查询的快照和报告
+      const reports: WatchReport[] = [];
+      let failed = false;
+      for (const query of queries) {
+        const result = await orchestrator.runWatchQuery(store, query);
+        if (result.watch) {
+          reports.push(result.watch);
+        } else {
+          console.error(`❌ 监控查询 ${query.name} 运行失败: ${result.error}`);
+          failed = true;
+        }
+      }
+
+      await writeReport(
+        ResultDiff.render(reports, action.format),
+        action.outputPath
+      );
+
+      if (failed) {
+        return 1;
+      }
+      return reports.some((item) => ResultDiff.hasChanges(item.diff)) ? 2 : 0;
+    }
+    default:
+      console.error(
+        ` 未知的监控操作: ${operation}，可选: add、list、remove、run`
+      );
+      return 1;
+  }
+}
+
+/**
+ * 输出对比报告：指定文件时写入文件，否则写入标准输出
+ * @param report 报告内容
+ * @param outputPath 报告文件路径
+ */
+async function writeReport(report: string, outputPath?: string): Promise<void> {
+  if (!outputPath) {
+    console.log(report);
+    return;
+  }
+
+  await mkdir(path.dirname(path.resolve(outputPath)), { recursive: true });
+  await writeFile(outputPath, `${report}\n`, "utf8");
+  console.error(`💾 对比报告已写入 ${outputPath}`);
+}
+
+/**
+ * 离线对比命令的参数
+ */
+interface DiffAction {
+  files: string[];
+  key: DiffKey;
+  format: DiffFormat;
+  outputPath?: string;
+}
+
+/**
+ * 离线对比两个导出的结果文件，不调用任何API
+ * @param action 离线对比命令的参数
+ * @returns Promise<number> 退出码：0 无变化，2 有变化，1 执行失败
+ */
+async function compareFiles(action: DiffAction): Promise<number> {
+  if (action.files.length !== 2) {
+    console.error(" diff 需要提供两个结果文件: nl2fofa diff <旧文件> <新文件>");
+    return 1;
+  }
+
+  try {
+    const [before, after] = await Promise.all(
+      action.files.map(async (filePath) => ({
+        path: filePath,
+        ...(await ResultExporter.importFromFile(filePath)),
+      }))
+    );
+    const comparison = ResultDiff.compareResultSets(before, after, action.key);
+    await writeReport(
+      ResultDiff.renderComparison(comparison, action.format),
+      action.outputPath
+    );
+    return ResultDiff.hasChanges(comparison.diff) ? 2 : 0;
+  } catch (error) {
+    console.error(` ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+}
+
+/**
+ * 解析对比报告格式，不合法时退出
+ * @param format --format 参数值，未指定时为 text
+ */
+function parseDiffFormat(format: string | undefined): DiffFormat {
+  if (format === undefined) {
+    return "text";
+  }
+  if (!DIFF_FORMATS.includes(format as DiffFormat)) {
+    console.error(
+      ` 不支持的报告格式: ${format}，可选: ${DIFF_FORMATS.join("、")}`
+    );
+    process.exit(1);
+  }
+  return format as DiffFormat;
+}
+
+/**
+ * 管理本地结果缓存：list 列出条目，inspect 查看条目，purge 删除条目
+ * @param args 子命令参数，第一个为操作名
+ * @param expiredOnly purge 时只删除已过期的条目
+ * @returns Promise<boolean> 是否执行成功
+ */
+async function manageCache(
+  args: string[],
+  expiredOnly: boolean
+): Promise<boolean> {
+  const directory =
+    process.env.FOFA_CACHE_DIR || ResultCache.defaultDirectory();
+  const cache = new ResultCache({
+    directory,
+    ttlSeconds: DEFAULT_CACHE_TTL_SECONDS,
+  });
+  const [action = "list", id] = args;
+
+  const translations = new TranslationCache(
+    process.env.LLM_CACHE_DIR || TranslationCache.defaultDirectory()
+  );
+
+  switch (action) {
+    case "list":
+      ResultPresenter.presentCacheEntries(await cache.list(), directory);
+      console.log(`🧠 翻译缓存: ${await translations.count()} 条`);
+      return true;
+    case "inspect": {
+      if (!id) {
+        console.error(" cache inspect 需要提供缓存ID");
+        return false;
+      }
+      const entry = await cache.inspect(id);
+      if (!entry) {
+        console.error(` 未找到缓存条目: ${id}`);
+        return false;
+      }
+      ResultPresenter.presentCacheEntry(entry);
+      return true;
+    }
+    case "purge": {
+      const removed = await cache.purge({ expiredOnly, id });
+      console.log(`🧹 已删除 ${removed} 条结果缓存`);
+      // 不指定ID和 --expired 时同时清空翻译缓存
+      if (!id && !expiredOnly) {
+        console.log(`🧹 已删除 ${await translations.purge()} 条翻译缓存`);
+      }
+      return true;
+    }
+    default:
+      console.error(` 未知的缓存操作: ${action}，可选: list、inspect、purge`);
+      return false;
+  }
+}
+
+/**
+ * 解析非负整数参数，不合法时退出
+ * @param value 参数值
+ * @param optionName 参数名，用于错误提示
+ */
+function parseIntegerOption(
+  value: string | undefined,
+  optionName: string
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    console.error(` ${optionName} 参数需要非负整数，实际为 "${value}"`);
+    process.exit(1);
+  }
+  return parsed;
+}
 
-  const missingVars = Object.entries(requiredEnvVars)
-    .filter(([, value]) => !value)
-    .map(([key]) => key);
+/**
+ * 解析导出参数，格式不合法或与子命令不兼容时退出。
+ * 流式导出时可以只指定 --format，结果按该格式写入标准输出
+ * @param filePath --output 参数值
+ * @param format --format 参数值
+ * @param command 子命令
+ * @param streaming 是否为流式导出
+ */
+function parseOutputOption(
+  filePath: string | undefined,
+  format: string | undefined,
+  command: CliCommand,
+  streaming: boolean
+): { filePath?: string; format: ExportFormat } | undefined {
+  if (filePath === undefined && format === undefined) {
+    return undefined;
+  }
 
-  if (missingVars.length > 0) {
-    console.error(" 缺少必要的环境变量配置:");
-    missingVars.forEach((varName) => {
-      console.error(`   - ${varName}`);
-    });
-    console.error("\n 请检查 .env 文件配置，参考 .env.example");
-    return null;
+  if (command !== "search" && command !== "replay") {
+    console.error(" --output 只支持导出查询结果，不能用于 stats、host 子命令");
+    process.exit(1);
+  }
+  if (filePath === undefined && !streaming) {
+    console.error(" --format 需要与 --output 或 --stream 一起使用");
+    process.exit(1);
   }
 
+  try {
+    const resolvedFormat = ResultExporter.resolveFormat(filePath ?? "", format);
+    if (streaming) {
+      ResultExporter.createEncoder(resolvedFormat, []);
+    }
+    return { filePath, format: resolvedFormat };
+  } catch (error) {
+    console.error(` ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * 将结果按指定格式逐条写入标准输出
+ * @param format 导出格式
+ * @param fields 返回字段列表
+ */
+function stdoutWriter(format: ExportFormat, fields: string[]): ResultStreamWriter {
+  const encoder = ResultExporter.createEncoder(format, fields);
   return {
-    llmConfig: {
-      apiKey: requiredEnvVars.LLM_API_KEY!,
-      apiUrl:
-        process.env.LLM_API_URL || "https://api.openai.com/v1/chat/completions",
+    write: (result) => {
+      process.stdout.write(encoder.write(result));
     },
-    fofaConfig: {
-      email: requiredEnvVars.FOFA_EMAIL!,
-      apiKey: requiredEnvVars.FOFA_API_KEY!,
+    close: async () => {
+      process.stdout.write(encoder.finish());
     },
   };
 }
 
+/**
+ * 预计F点消耗超过阈值时在终端询问是否继续，非交互环境下直接拒绝
+ * @param preview 查询预览
+ * @returns Promise<boolean> 是否继续执行
+ */
+async function confirmExecution(preview: QueryPreview): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    console.error(" 非交互环境无法确认，请使用 --yes 跳过确认");
+    return false;
+  }
+
+  // 提示写入标准错误输出，流式导出时标准输出留给数据
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stderr,
+  });
+  try {
+    const answer = await rl.question(
+      `⚠️ 预计消耗 ${preview.estimate.estimatedFpoints} F点，超过确认阈值 ${preview.threshold}，是否继续？(y/N) `
+    );
+    return ["y", "yes"].includes(answer.trim().toLowerCase());
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * 支持的子命令，未指定时为普通查询
+ */
+const SUBCOMMANDS = [
+  "stats",
+  "host",
+  "doctor",
+  "keys",
+  "cache",
+  "history",
+  "replay",
+  "watch",
+  "diff",
+] as const;
+
+type CliCommand = "search" | (typeof SUBCOMMANDS)[number];
+
+/**
+ * 加载配置，配置文件或取值不合法时输出问题并退出
+ * @param values 命令行参数
+ */
+function loadSettings(values: SettingsCliValues): Settings {
+  try {
+    return SettingsLoader.load(values);
+  } catch (error) {
+    if (error instanceof SettingsError) {
+      presentSettingsError(error);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
 /**
  * 解析命令行参数
  */
 function parseArguments(): {
   mode: "help" | "direct" | "natural";
+  settings: Settings;
+  command: CliCommand;
   query: string;
+  fields?: string[];
+  collect?: CollectOptions;
+  stream?: number;
+  statsFields?: string[];
+  execution?: ExecutionOptions;
+  output?: { filePath?: string; format: ExportFormat };
+  cacheAction?: { args: string[]; expiredOnly: boolean };
+  historyAction?: { search?: string; limit?: number };
+  watchAction?: WatchAction;
+  diffAction?: DiffAction;
 } {
   const { values, positionals } = parseArgs({
     args: process.argv.slice(2),
@@ -108,15 +781,195 @@ function parseArguments(): {
         short: "d",
         default: false,
       },
+      fields: {
+        type: "string",
+        short: "f",
+      },
+      collect: {
+        type: "string",
+        short: "c",
+      },
+      "page-size": {
+        type: "string",
+      },
+      "max-fpoints": {
+        type: "string",
+      },
+      stream: {
+        type: "string",
+      },
+      by: {
+        type: "string",
+      },
+      check: {
+        type: "boolean",
+        default: false,
+      },
+      output: {
+        type: "string",
+        short: "o",
+      },
+      format: {
+        type: "string",
+      },
+      "no-cache": {
+        type: "boolean",
+        default: false,
+      },
+      refresh: {
+        type: "boolean",
+        default: false,
+      },
+      expired: {
+        type: "boolean",
+        default: false,
+      },
+      "dry-run": {
+        type: "boolean",
+        default: false,
+      },
+      yes: {
+        type: "boolean",
+        short: "y",
+        default: false,
+      },
+      limit: {
+        type: "string",
+      },
+      key: {
+        type: "string",
+      },
+      ...SETTINGS_CLI_OPTIONS,
     },
     allowPositionals: true,
   });
+  const settings = loadSettings(values);
+
+  // 识别子命令
+  let command: CliCommand = "search";
+  const subcommand = SUBCOMMANDS.find((name) => name === positionals[0]);
+  if (subcommand) {
+    command = subcommand;
+    positionals.shift();
+  }
+  if (values.check) {
+    command = "doctor";
+  }
+
+  // 配置检查和账户池状态不需要查询内容
+  if ((command === "doctor" || command === "keys") && !values.help) {
+    return { mode: "natural", settings, command, query: "" };
+  }
+
+  // 缓存管理的参数为操作名和缓存ID
+  if (command === "cache" && !values.help) {
+    return {
+      settings,
+      mode: "natural",
+      command,
+      query: "",
+      cacheAction: { args: positionals, expiredOnly: values.expired },
+    };
+  }
+
+  // 查看历史的参数为搜索词
+  if (command === "history" && !values.help) {
+    return {
+      settings,
+      mode: "natural",
+      command,
+      query: "",
+      historyAction: {
+        search: positionals.join(" ") || undefined,
+        limit: parseIntegerOption(values.limit, "--limit"),
+      },
+    };
+  }
+
+  // 监控查询的参数为操作名、名称和查询内容
+  if (command === "watch" && !values.help) {
+    const mode = values.direct ? "direct" : "natural";
+    return {
+      settings,
+      mode,
+      command,
+      query: "",
+      watchAction: {
+        args: positionals,
+        mode,
+        fields: values.fields ? values.fields.split(",") : undefined,
+        target: parseIntegerOption(values.collect, "--collect"),
+        format: parseDiffFormat(values.format),
+        outputPath: values.output,
+      },
+    };
+  }
+
+  // 离线对比的参数为两个结果文件
+  if (command === "diff" && !values.help) {
+    const key = values.key ?? "ip:port";
+    if (!DIFF_KEYS.includes(key as DiffKey)) {
+      console.error(` 不支持的匹配键: ${key}，可选: ${DIFF_KEYS.join("、")}`);
+      process.exit(1);
+    }
+    return {
+      settings,
+      mode: "natural",
+      command,
+      query: "",
+      diffAction: {
+        files: positionals,
+        key: key as DiffKey,
+        format: parseDiffFormat(values.format),
+        outputPath: values.output,
+      },
+    };
+  }
 
   // 显示帮助信息
   if (values.help || (positionals.length === 0 && !values.direct)) {
-    return { mode: "help", query: "" };
+    return { mode: "help", settings, command, query: "" };
   }
 
+  const requestedFields = values.fields ? values.fields.split(",") : undefined;
+  const target = parseIntegerOption(values.collect, "--collect");
+  const collect: CollectOptions | undefined =
+    target === undefined
+      ? undefined
+      : {
+          target,
+          pageSize: parseIntegerOption(values["page-size"], "--page-size"),
+          maxFpoints: parseIntegerOption(
+            values["max-fpoints"],
+            "--max-fpoints"
+          ),
+        };
+  const stream = parseIntegerOption(values.stream, "--stream");
+  if (collect && stream !== undefined) {
+    console.error(" --collect 与 --stream 不能同时使用");
+    process.exit(1);
+  }
+  const statsFields = values.by ? values.by.split(",") : undefined;
+  const output = parseOutputOption(
+    values.output,
+    values.format,
+    command,
+    stream !== undefined
+  );
+  if (values["no-cache"] && values.refresh) {
+    console.error(" --no-cache 与 --refresh 不能同时使用");
+    process.exit(1);
+  }
+  const execution: ExecutionOptions = {
+    dryRun: values["dry-run"],
+    cacheMode: values["no-cache"]
+      ? "bypass"
+      : values.refresh
+      ? "refresh"
+      : "default",
+    confirm: values.yes ? async () => true : confirmExecution,
+  };
+
   // 直接FOFA查询模式
   if (values.direct) {
     const query = positionals.join(" ");
@@ -124,7 +977,18 @@ function parseArguments(): {
       console.error(" --direct 参数需要提供FOFA查询语句");
       process.exit(1);
     }
-    return { mode: "direct", query };
+    return {
+      settings,
+      mode: "direct",
+      command,
+      query,
+      fields: requestedFields,
+      collect,
+      stream,
+      statsFields,
+      execution,
+      output,
+    };
   }
 
   // 自然语言模式
@@ -134,7 +998,18 @@ function parseArguments(): {
     process.exit(1);
   }
 
-  return { mode: "natural", query };
+  return {
+    settings,
+    mode: "natural",
+    command,
+    query,
+    fields: requestedFields,
+    collect,
+    stream,
+    statsFields,
+    execution,
+    output,
+  };
 }
 
 /**
@@ -143,36 +1018,219 @@ function parseArguments(): {
 async function main(): Promise<void> {
   try {
     // 解析命令行参数
-    const { mode, query } = parseArguments();
+    const {
+      command,
+      stream,
+      statsFields,
+      execution,
+      output,
+      cacheAction,
+      historyAction,
+      watchAction,
+      diffAction,
+      settings,
+      ...request
+    } = parseArguments();
+    let { mode, query, fields, collect } = request;
 
     if (mode === "help") {
       showHelp();
       return;
     }
 
-    // 验证环境变量
-    const config = validateEnvironment();
-    if (!config) {
+    // 缓存管理不需要API凭据
+    if (cacheAction) {
+      const success = await manageCache(
+        cacheAction.args,
+        cacheAction.expiredOnly
+      );
+      process.exit(success ? 0 : 1);
+    }
+
+    // 监控查询通过退出码报告是否有资产变化，便于在 cron 中使用
+    if (watchAction) {
+      process.exit(await manageWatch(watchAction, settings));
+    }
+
+    // 离线对比不需要API凭据
+    if (diffAction) {
+      process.exit(await compareFiles(diffAction));
+    }
+
+    // 查看历史不需要API凭据
+    if (historyAction) {
+      ResultPresenter.presentHistory(
+        await openHistory().list(historyAction.search, historyAction.limit),
+        historyAction.search
+      );
+      return;
+    }
+
+    // 重放历史查询：已生成FOFA查询语句的记录直接执行该语句，否则重新翻译自然语言；
+    // 命令行指定的返回字段和收集选项优先于原记录
+    let size = settings.defaults.size ?? 50;
+    if (command === "replay") {
+      const record = await loadReplay(query.trim());
+      const log = stream !== undefined ? console.error : console.log;
+      log(
+        `🔁 重放历史查询 ${record.id}（${new Date(record.timestamp).toLocaleString("zh-CN")}）: ${record.input}`
+      );
+      mode = record.query ? "direct" : "natural";
+      query = record.query ?? record.input;
+      fields = fields ?? record.fields;
+      collect = collect ?? record.collect;
+      size = record.size ?? size;
+    }
+
+    // 命令行和历史记录都未指定返回字段时使用配置档案的默认字段
+    fields = fields ?? settings.defaults.fields;
+
+    // 导出目标列表时补充生成目标所需的字段
+    if (output) {
+      fields = TargetListBuilder.withRequiredFields(
+        FofaFieldCatalog.normalizeResultFields(fields),
+        output.format
+      );
+    }
+
+    // 流式导出时标准输出留给数据，进度写入标准错误输出
+    const streaming =
+      stream !== undefined && (command === "search" || command === "replay");
+
+    // 验证环境变量并创建编排器实例
+    const orchestrator = createOrchestrator(
+      settings,
+      new ConsoleReporter(streaming ? "stderr" : "stdout")
+    );
+    if (!orchestrator) {
       process.exit(1);
     }
 
-    // 创建编排器实例
-    const orchestrator = new Orchestrator(config.llmConfig, config.fofaConfig);
+    // 配置检查
+    if (command === "doctor") {
+      const result = await orchestrator.checkConfiguration();
+      ResultPresenter.presentConfigurationReport(result.configuration!);
+      process.exit(result.success ? 0 : 1);
+    }
+
+    // 账户池状态
+    if (command === "keys") {
+      const result = await orchestrator.checkKeyPool();
+      ResultPresenter.presentKeyPool(result.keyPool!);
+      process.exit(result.success ? 0 : 1);
+    }
+
+    // 流式导出：指定 --output 时逐条写入文件，否则标准输出只写入数据（默认NDJSON）
+    if (streaming) {
+      const resultFields = FofaFieldCatalog.normalizeResultFields(fields);
+      // 通过执行前检查后才创建导出器：dry-run、取消执行或翻译失败时不改动已有的导出文件
+      let writer: ResultStreamWriter | undefined;
+      const openWriter = async () => {
+        writer = output?.filePath
+          ? await ResultExporter.createStreamWriter(
+              output.filePath,
+              resultFields,
+              output.format
+            )
+          : stdoutWriter(output?.format ?? "ndjson", resultFields);
+      };
+
+      let result = await orchestrator.streamQuery(
+        query,
+        mode,
+        { fields, limit: stream === 0 ? undefined : stream },
+        (item) => writer!.write(item),
+        execution,
+        openWriter
+      );
+      // 导出文件无法写入时按失败处理
+      let exported = writer !== undefined;
+      try {
+        await writer?.close();
+      } catch (error) {
+        exported = false;
+        result = {
+          ...result,
+          success: false,
+          error: error instanceof Error ? error.message : "未知错误",
+        };
+      }
+      await recordHistory(mode, query, result, {});
+      if (!result.success) {
+        console.error(`❌ ${result.error}`);
+      }
+      if (result.success && result.preview) {
+        ResultPresenter.presentQueryPreview(
+          result.preview,
+          result.explanation
+        );
+      } else if (output?.filePath && exported) {
+        console.error(`💾 结果已导出到 ${output.filePath}`);
+      }
+      process.exit(result.success ? 0 : 1);
+    }
 
     // 显示启动信息
     console.log(" NL2FOFA 工具启动");
+    const modeLabel =
+      command === "host"
+        ? "主机画像"
+        : mode === "direct"
+        ? "直接FOFA查询"
+        : "自然语言查询";
     console.log(
-      ` 查询模式: ${mode === "direct" ? "直接FOFA查询" : "自然语言查询"}`
+      ` 查询模式: ${command === "stats" ? `聚合统计（${modeLabel}）` : modeLabel}`
     );
+    if (settings.profile) {
+      console.log(` 配置档案: ${settings.profile}`);
+    }
     console.log(` 查询内容: ${query}`);
     console.log("=".repeat(80));
 
     // 执行查询
     let result;
-    if (mode === "direct") {
-      result = await orchestrator.executeDirectQuery(query);
+    if (command === "host") {
+      result = await orchestrator.lookupHost(query.trim());
+    } else if (command === "stats") {
+      result = await orchestrator.processStatsQuery(query, mode, statsFields);
+    } else if (mode === "direct") {
+      result = await orchestrator.executeDirectQuery(
+        query,
+        size,
+        fields,
+        collect,
+        execution
+      );
+      await recordHistory(mode, query, result, { size, collect });
     } else {
-      result = await orchestrator.processUserQuery(query);
+      result = await orchestrator.processUserQuery(
+        query,
+        size,
+        fields,
+        collect,
+        execution
+      );
+      await recordHistory(mode, query, result, { size, collect });
+    }
+    presentResult(result);
+
+    // 导出完整结果（dry-run 未执行查询，不导出）
+    if (output?.filePath && result.success && result.data && !result.preview) {
+      const filePath = await ResultExporter.exportToFile(
+        {
+          results: result.data,
+          fields: result.fields ?? FofaFieldCatalog.normalizeResultFields(),
+          query: result.query,
+          explanation: result.explanation,
+          collection: result.collection,
+          consumedFpoints: result.consumedFpoints,
+        },
+        output.filePath,
+        output.format
+      );
+      console.log(
+        `💾 已将 ${result.data.length} 条结果导出为 ${output.format.toUpperCase()}: ${filePath}`
+      );
     }
 
     // 根据结果设置退出码
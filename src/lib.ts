@@ -0,0 +1,76 @@
+/**
+ * NL2FOFA 库入口
+ * 供其他 Node.js 程序作为依赖使用：导入时没有任何副作用（不读取环境变量、不加载 .env、
+ * 不启动服务器），所有配置由调用方构造后传入
+ */
+
+// 编排器与服务
+export { Orchestrator } from "./orchestrator.js";
+export type { CollectOptions, ExecutionOptions } from "./orchestrator.js";
+export { LLMService } from "./llmService.js";
+export {
+  createLLMProvider,
+  LLM_PROVIDERS,
+  HttpLLMProvider,
+  OpenAIProvider,
+  AnthropicProvider,
+  GeminiProvider,
+  OllamaProvider,
+} from "./llmProviders.js";
+export { FofaService } from "./fofaService.js";
+export { FofaKeyPool } from "./fofaKeyPool.js";
+export {
+  RequestScheduler,
+  RetryableError,
+  DEFAULT_SCHEDULER_OPTIONS,
+} from "./requestScheduler.js";
+export type { RetryableFailure } from "./requestScheduler.js";
+export {
+  FofaApiError,
+  FofaAuthError,
+  FofaQuotaError,
+  FofaPermissionError,
+  FofaSyntaxError,
+  FofaRateLimitError,
+  FofaServerError,
+  FofaTimeoutError,
+  FofaNetworkError,
+  createFofaError,
+  fofaErrorFromRequest,
+} from "./fofaErrors.js";
+export type { FofaErrorDetails } from "./fofaErrors.js";
+export { ConfigurationChecker } from "./configurationChecker.js";
+export {
+  SettingsLoader,
+  SettingsError,
+  SETTINGS_CLI_OPTIONS,
+} from "./settings.js";
+export type { SettingsCliValues } from "./settings.js";
+
+// 查询语法解析与字段目录
+export { FofaQueryParser, FofaQuerySyntaxError } from "./queryParser.js";
+export {
+  FofaFieldCatalog,
+  FofaQueryFieldError,
+  DEFAULT_RESULT_FIELDS,
+  DEFAULT_STATS_FIELDS,
+} from "./fieldCatalog.js";
+
+// 结果展示、导出与对比
+export { ResultPresenter } from "./resultPresenter.js";
+export { ConsoleReporter, NotificationReporter } from "./reporter.js";
+export { ResultExporter, EXPORT_FORMATS } from "./resultExporter.js";
+export type { ResultStreamWriter, ResultEncoder } from "./resultExporter.js";
+export { TargetListBuilder, TARGET_LIST_FORMATS } from "./targetList.js";
+export type { TargetCollector } from "./targetList.js";
+export { ResultDiff, DIFF_FORMATS, DIFF_KEYS } from "./resultDiff.js";
+export type { ResultSet } from "./resultDiff.js";
+
+// 本地存储
+export { ResultCache, DEFAULT_CACHE_TTL_SECONDS } from "./resultCache.js";
+export { TranslationCache } from "./translationCache.js";
+export { QueryHistory, DEFAULT_HISTORY_LIMIT } from "./queryHistory.js";
+export { WatchStore, DEFAULT_WATCH_TARGET } from "./watchStore.js";
+
+// 类型定义
+export type * from "./types.js";
@@ -0,0 +1,317 @@
+/**
+ * LLM Providers - 大模型服务商
+ * 每个服务商负责自己的请求地址、认证头、请求体、响应解析和错误信息，
+ * 通过 LLMConfig.provider 显式选择，不再根据接口地址猜测
+ */
+
+import axios from "axios";
+import {
+  LLMConfig,
+  LLMHttpRequest,
+  LLMProvider,
+  LLMProviderName,
+} from "./types.js";
+
+/**
+ * 支持的服务商
+ */
+export const LLM_PROVIDERS: readonly LLMProviderName[] = [
+  "openai",
+  "anthropic",
+  "gemini",
+  "ollama",
+];
+
+// 生成FOFA查询只需要简短且稳定的输出
+const DEFAULT_TEMPERATURE = 0.1;
+const DEFAULT_MAX_TOKENS = 500;
+
+/**
+ * 通过HTTP接口调用的服务商基类：统一选择模型和转换请求错误
+ */
+export abstract class HttpLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+  readonly model: string;
+  protected config: LLMConfig;
+
+  /**
+   * @param config LLM配置
+   * @param defaultModel 未配置模型时使用的默认模型
+   */
+  constructor(config: LLMConfig, defaultModel: string) {
+    this.config = config;
+    this.model = config.model || defaultModel;
+  }
+
+  protected get temperature(): number {
+    return this.config.temperature ?? DEFAULT_TEMPERATURE;
+  }
+
+  protected get maxTokens(): number {
+    return this.config.maxTokens ?? DEFAULT_MAX_TOKENS;
+  }
+
+  abstract buildRequest(prompt: string): LLMHttpRequest;
+
+  abstract extractContent(responseData: unknown): string;
+
+  /**
+   * 从错误响应体中提取服务商给出的错误信息
+   * @param data 错误响应体
+   * @returns 错误信息，响应体不是该服务商的错误格式时返回undefined
+   */
+  protected abstract errorMessage(data: any): string | undefined;
+
+  /**
+   * 将请求异常转换为带HTTP状态码和服务商错误信息的错误
+   * @param error 捕获的异常
+   */
+  mapError(error: unknown): Error {
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        const detail = this.errorMessage(error.response.data) || error.message;
+        return new Error(`HTTP ${error.response.status}: ${detail}`);
+      }
+      if (error.code === "ECONNABORTED") {
+        return new Error(`请求超时: ${error.message}`);
+      }
+    }
+    return error instanceof Error ? error : new Error("未知错误");
+  }
+
+  /**
+   * 响应不符合预期格式时抛出的错误
+   */
+  protected unexpectedResponse(): Error {
+    return new Error(`无法解析API响应格式（${this.name}）`);
+  }
+}
+
+/**
+ * OpenAI Chat Completions 及兼容该格式的服务（硅基流动、DeepSeek、vLLM、LM Studio 等）
+ */
+export class OpenAIProvider extends HttpLLMProvider {
+  readonly name = "openai";
+
+  constructor(config: LLMConfig) {
+    super(config, "gpt-3.5-turbo");
+  }
+
+  buildRequest(prompt: string): LLMHttpRequest {
+    const { thinkingBudget } = this.config;
+
+    return {
+      url: this.config.apiUrl || "https://api.openai.com/v1/chat/completions",
+      headers: {
+        Authorization: `Bearer ${this.config.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: {
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: this.temperature,
+        max_tokens: this.maxTokens,
+        // 硅基流动等兼容服务为推理模型提供的扩展参数
+        ...(thinkingBudget === undefined
+          ? {}
+          : thinkingBudget > 0
+            ? { enable_thinking: true, thinking_budget: thinkingBudget }
+            : { enable_thinking: false }),
+      },
+    };
+  }
+
+  extractContent(responseData: any): string {
+    const content = responseData?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw this.unexpectedResponse();
+    }
+    return content.trim();
+  }
+
+  protected errorMessage(data: any): string | undefined {
+    return data?.error?.message;
+  }
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicProvider extends HttpLLMProvider {
+  readonly name = "anthropic";
+
+  constructor(config: LLMConfig) {
+    super(config, "claude-3-5-haiku-latest");
+  }
+
+  buildRequest(prompt: string): LLMHttpRequest {
+    const thinkingBudget = this.config.thinkingBudget ?? 0;
+
+    return {
+      url: this.config.apiUrl || "https://api.anthropic.com/v1/messages",
+      headers: {
+        "x-api-key": this.config.apiKey ?? "",
+        "anthropic-version": "2023-06-01",
+        "Content-Type": "application/json",
+      },
+      body: {
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        // 开启思考时 max_tokens 包含思考预算，且不能指定 temperature
+        ...(thinkingBudget > 0
+          ? {
+              max_tokens: this.maxTokens + thinkingBudget,
+              thinking: { type: "enabled", budget_tokens: thinkingBudget },
+            }
+          : { max_tokens: this.maxTokens, temperature: this.temperature }),
+      },
+    };
+  }
+
+  extractContent(responseData: any): string {
+    if (!Array.isArray(responseData?.content)) {
+      throw this.unexpectedResponse();
+    }
+    return responseData.content
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("")
+      .trim();
+  }
+
+  protected errorMessage(data: any): string | undefined {
+    return data?.error?.message;
+  }
+}
+
+/**
+ * Google Gemini generateContent API，接口地址中的 {model} 会替换为模型名称
+ */
+export class GeminiProvider extends HttpLLMProvider {
+  readonly name = "gemini";
+
+  constructor(config: LLMConfig) {
+    super(config, "gemini-1.5-flash");
+  }
+
+  buildRequest(prompt: string): LLMHttpRequest {
+    const url =
+      this.config.apiUrl ||
+      "https://generativelanguage.googleapis.com/v1beta/models/{model}:generateContent";
+
+    return {
+      url: url.replace("{model}", encodeURIComponent(this.model)),
+      headers: {
+        "x-goog-api-key": this.config.apiKey ?? "",
+        "Content-Type": "application/json",
+      },
+      body: {
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: this.temperature,
+          maxOutputTokens: this.maxTokens,
+          responseMimeType: "application/json",
+          ...(this.config.thinkingBudget === undefined
+            ? {}
+            : { thinkingConfig: { thinkingBudget: this.config.thinkingBudget } }),
+        },
+      },
+    };
+  }
+
+  extractContent(responseData: any): string {
+    const parts = responseData?.candidates?.[0]?.content?.parts;
+    if (!Array.isArray(parts)) {
+      // 输入被安全策略拦截时没有候选结果
+      const blockReason = responseData?.promptFeedback?.blockReason;
+      if (blockReason) {
+        throw new Error(`Gemini拒绝了该请求: ${blockReason}`);
+      }
+      throw this.unexpectedResponse();
+    }
+    return parts
+      .map((part: any) => part.text ?? "")
+      .join("")
+      .trim();
+  }
+
+  protected errorMessage(data: any): string | undefined {
+    // 部分接口以数组形式返回错误
+    const body = Array.isArray(data) ? data[0] : data;
+    return body?.error?.message;
+  }
+}
+
+/**
+ * Ollama 本地模型（/api/chat），不需要API密钥；
+ * 其他本地服务如果兼容 OpenAI 格式，使用 openai 并配置接口地址即可
+ */
+export class OllamaProvider extends HttpLLMProvider {
+  readonly name = "ollama";
+
+  constructor(config: LLMConfig) {
+    super(config, "qwen2.5");
+  }
+
+  buildRequest(prompt: string): LLMHttpRequest {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    // 通过反向代理暴露的Ollama可能需要认证
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    return {
+      url: this.config.apiUrl || "http://localhost:11434/api/chat",
+      headers,
+      body: {
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        stream: false,
+        format: "json",
+        options: { temperature: this.temperature, num_predict: this.maxTokens },
+        // Ollama 只支持开关思考，不支持设置预算
+        ...(this.config.thinkingBudget === undefined
+          ? {}
+          : { think: this.config.thinkingBudget > 0 }),
+      },
+    };
+  }
+
+  extractContent(responseData: any): string {
+    const content = responseData?.message?.content;
+    if (typeof content !== "string") {
+      throw this.unexpectedResponse();
+    }
+    return content.trim();
+  }
+
+  protected errorMessage(data: any): string | undefined {
+    return typeof data?.error === "string" ? data.error : undefined;
+  }
+}
+
+/**
+ * 按配置创建服务商，未配置时使用 openai
+ * @param config LLM配置
+ * @returns LLMProvider 服务商
+ * @throws Error 服务商名称不受支持时抛出
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  const provider = config.provider ?? "openai";
+  switch (provider) {
+    case "openai":
+      return new OpenAIProvider(config);
+    case "anthropic":
+      return new AnthropicProvider(config);
+    case "gemini":
+      return new GeminiProvider(config);
+    case "ollama":
+      return new OllamaProvider(config);
+    default:
+      throw new Error(
+        `不支持的LLM服务商: ${provider}，可选: ${LLM_PROVIDERS.join("、")}`
+      );
+  }
+}
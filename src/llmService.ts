@@ -1,16 +1,43 @@
 /**
  * LLM Service - 大模型服务
- * 唯一职责：与LLM API通信，将自然语言转换为FOFA查询语法
+ * 唯一职责：与LLM API通信，将自然语言转换为FOFA查询语法。
+ * 请求格式和响应解析由服务商（LLMProvider）负责
  */
 
 import axios from "axios";
-import { LLMResponse, LLMConfig } from "./types.js";
+import { createHash } from "crypto";
+import {
+  LLMResponse,
+  LLMConfig,
+  LLMProvider,
+  LLMTranslation,
+  FofaQueryValidation,
+  QueryRepairAttempt,
+  ServiceCheckResult,
+} from "./types.js";
+import { TranslationCache } from "./translationCache.js";
+import { createLLMProvider } from "./llmProviders.js";
 
 export class LLMService {
   private config: LLMConfig;
+  private provider: LLMProvider;
+  private translationCache: TranslationCache | null;
+  private readonly DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+  private readonly DEFAULT_TIMEOUT_SECONDS = 300;
 
-  constructor(config: LLMConfig) {
+  /**
+   * @param config LLM配置
+   * @param provider 服务商，默认按 config.provider 创建
+   */
+  constructor(
+    config: LLMConfig,
+    provider: LLMProvider = createLLMProvider(config)
+  ) {
     this.config = config;
+    this.provider = provider;
+    this.translationCache = config.translationCacheDir
+      ? new TranslationCache(config.translationCacheDir)
+      : null;
   }
 
   /**
@@ -19,18 +46,155 @@ export class LLMService {
    * @returns Promise<LLMResponse> 包含fofa_query和explanation的对象
    */
   async convertTextToFofaQuery(userInput: string): Promise<LLMResponse> {
-    const prompt = this.buildPrompt(userInput);
+    return this.requestFofaQuery(this.buildPrompt(userInput));
+  }
 
-    try {
-      // 检测API类型并构建相应的请求
-      const { requestData, headers } = this.buildRequest(prompt);
+  /**
+   * 将自然语言转换为FOFA查询，并在生成的查询未通过校验时请求LLM自我修正。
+   * 启用翻译缓存时，相同输入在Prompt模板和模型不变的情况下直接复用上次通过校验的查询
+   * @param userInput 用户的自然语言输入
+   * @param validate 查询校验函数（通常为 FofaService.validateQuery）
+   * @returns Promise<LLMTranslation> 最终的查询结果及每次尝试的记录
+   */
+  async convertWithRepair(
+    userInput: string,
+    validate: (query: string) => FofaQueryValidation
+  ): Promise<LLMTranslation> {
+    if (!this.translationCache) {
+      return this.translateWithRepair(userInput, validate);
+    }
+
+    const promptVersion = this.promptVersion();
+    const model = this.modelKey();
+
+    // 缓存的查询仍需通过当前的校验规则，字段目录更新后不合法的条目视为未命中
+    const cached = await this.translationCache.get(
+      userInput,
+      promptVersion,
+      model
+    );
+    if (cached?.fofa_query && validate(cached.fofa_query).valid) {
+      return {
+        ...cached,
+        attempts: [{ attempt: 0, query: cached.fofa_query }],
+        cacheStatus: "hit",
+      };
+    }
+
+    const translation = await this.translateWithRepair(userInput, validate);
+    const last = translation.attempts[translation.attempts.length - 1];
+    if (translation.fofa_query && last && !last.error) {
+      // 缓存写入失败不影响本次翻译结果
+      await this.translationCache
+        .set(userInput, promptVersion, model, translation)
+        .catch(() => undefined);
+    }
+    return { ...translation, cacheStatus: "miss" };
+  }
+
+  /**
+   * 调用LLM翻译并在未通过校验时请求修正
+   */
+  private async translateWithRepair(
+    userInput: string,
+    validate: (query: string) => FofaQueryValidation
+  ): Promise<LLMTranslation> {
+    const maxRepairAttempts =
+      this.config.maxRepairAttempts ?? this.DEFAULT_MAX_REPAIR_ATTEMPTS;
+    const attempts: QueryRepairAttempt[] = [];
+    let response = await this.convertTextToFofaQuery(userInput);
+
+    for (let attempt = 0; ; attempt++) {
+      if (!response.fofa_query) {
+        // 修正过程中LLM放弃生成查询，记录后直接返回
+        if (attempt > 0) {
+          attempts.push({
+            attempt,
+            query: null,
+            error: `LLM未能给出修正后的查询: ${response.explanation}`,
+          });
+        }
+        return { ...response, attempts };
+      }
 
-      const response = await axios.post(this.config.apiUrl, requestData, {
-        headers: headers,
-        timeout: 300000, // 5分钟超时
+      const validation = validate(response.fofa_query);
+      attempts.push({
+        attempt,
+        query: response.fofa_query,
+        error: validation.valid ? undefined : validation.error,
       });
 
-      const content = this.extractContent(response.data);
+      if (validation.valid || attempt >= maxRepairAttempts) {
+        return { ...response, attempts };
+      }
+
+      response = await this.requestFofaQuery(
+        this.buildRepairPrompt(
+          userInput,
+          response.fofa_query,
+          validation.error || "查询未通过校验"
+        )
+      );
+    }
+  }
+
+  /**
+   * Prompt模板版本：模板内容的摘要，修改模板后自动变化
+   */
+  private promptVersion(): string {
+    return createHash("sha256")
+      .update(this.buildPrompt("{{userInput}}"))
+      .update(this.buildRepairPrompt("{{userInput}}", "{{query}}", "{{error}}"))
+      .digest("hex")
+      .slice(0, 12);
+  }
+
+  /**
+   * 模型标识：API地址的主机名加模型名称，同名模型在不同服务商处视为不同模型
+   */
+  private modelKey(): string {
+    let host = this.provider.buildRequest("").url;
+    try {
+      host = new URL(host).host;
+    } catch {
+      // 地址不合法时使用原始字符串
+    }
+    return `${host}/${this.provider.model}`;
+  }
+
+  /**
+   * 检查LLM接口是否可用：发送一条极短的请求并确认能解析出响应内容
+   * @returns Promise<ServiceCheckResult> 检查结果及耗时
+   */
+  async checkConnection(): Promise<ServiceCheckResult> {
+    const startedAt = Date.now();
+
+    try {
+      // 检查最多等待30秒，配置了更短的超时时间时以配置为准
+      const timeoutSeconds = Math.min(this.config.timeoutSeconds ?? 30, 30);
+      await this.send("请只回复: OK", timeoutSeconds * 1000);
+
+      return { ok: true, latencyMs: Date.now() - startedAt };
+    } catch (error) {
+      return {
+        ok: false,
+        latencyMs: Date.now() - startedAt,
+        error: `LLM接口检查失败: ${this.provider.mapError(error).message}`,
+      };
+    }
+  }
+
+  /**
+   * 发送prompt并将LLM响应解析为LLMResponse
+   * @param prompt 完整的prompt
+   * @returns Promise<LLMResponse> 包含fofa_query和explanation的对象
+   */
+  private async requestFofaQuery(prompt: string): Promise<LLMResponse> {
+    try {
+      const content = await this.send(
+        prompt,
+        (this.config.timeoutSeconds ?? this.DEFAULT_TIMEOUT_SECONDS) * 1000
+      );
 
       // 尝试解析JSON响应
       try {
@@ -55,29 +219,38 @@ export class LLMService {
           explanation: parsedResponse.explanation,
         };
       } catch (parseError) {
-        console.error("Failed to parse LLM response as JSON:", content);
-
         // 如果JSON解析失败，尝试从文本中提取信息
         const fallbackResult = this.extractFromText(content);
         if (fallbackResult.fofa_query) {
           return fallbackResult;
         }
 
+        // 附带响应开头，便于排查模型未按要求输出JSON的问题
         return {
           fofa_query: null,
-          explanation: "无法解析LLM响应",
+          explanation: `无法解析LLM响应: ${content.trim().slice(0, 200)}`,
         };
       }
     } catch (error) {
-      console.error("LLM API调用失败:", error);
-      throw new Error(
-        `LLM服务调用失败: ${
-          error instanceof Error ? error.message : "未知错误"
-        }`
-      );
+      throw new Error(`LLM服务调用失败: ${this.provider.mapError(error).message}`);
     }
   }
 
+  /**
+   * 按服务商的格式发送prompt并提取响应文本
+   * @param prompt 完整的prompt
+   * @param timeout 超时时间（毫秒）
+   * @returns Promise<string> 响应文本
+   */
+  private async send(prompt: string, timeout: number): Promise<string> {
+    const request = this.provider.buildRequest(prompt);
+    const response = await axios.post(request.url, request.body, {
+      headers: request.headers,
+      timeout,
+    });
+    return this.provider.extractContent(response.data);
+  }
+
   /**
    * 构建发送给LLM的Prompt
    * @param userInput 用户输入
@@ -182,72 +355,29 @@ JSON 格式必须合法，能被 JSON.parse() 正常解析。
   }
 
   /**
-   * 根据API类型构建请求数据和头部
-   * @param prompt 提示词
-   * @returns 请求数据和头部信息
-   */
-  private buildRequest(prompt: string): { requestData: any; headers: any } {
-    const url = this.config.apiUrl.toLowerCase();
-
-    // 硅基流动 API
-    if (url.includes("siliconflow.cn")) {
-      return {
-        requestData: {
-          model: "deepseek-ai/DeepSeek-V3.1",
-          messages: [
-            {
-              role: "user",
-              content: prompt,
-            },
-          ],
-          thinking_budget: 4096,
-          temperature: 0.1,
-          max_tokens: 500,
-        },
-        headers: {
-          Authorization: `Bearer ${this.config.apiKey}`,
-          "Content-Type": "application/json",
-        },
-      };
-    }
-
-    // 默认使用OpenAI格式（兼容其他服务）
-    return {
-      requestData: {
-        model: "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        temperature: 0.1,
-        max_tokens: 500,
-      },
-      headers: {
-        Authorization: `Bearer ${this.config.apiKey}`,
-        "Content-Type": "application/json",
-      },
-    };
-  }
-
-  /**
-   * 从不同API响应中提取内容
-   * @param responseData API响应数据
-   * @returns 提取的文本内容
+   * 构建修正查询的Prompt：在原始Prompt基础上附加校验错误和修正指令
+   * @param userInput 用户输入
+   * @param invalidQuery 未通过校验的查询
+   * @param error 校验器给出的错误信息
+   * @returns 完整的prompt字符串
    */
-  private extractContent(responseData: any): string {
-    // Google Gemini API响应格式
-    if (responseData.candidates && responseData.candidates[0]) {
-      return responseData.candidates[0].content.parts[0].text.trim();
-    }
-
-    // OpenAI API响应格式
-    if (responseData.choices && responseData.choices[0]) {
-      return responseData.choices[0].message.content.trim();
-    }
-
-    throw new Error("无法解析API响应格式");
+  private buildRepairPrompt(
+    userInput: string,
+    invalidQuery: string,
+    error: string
+  ): string {
+    return `${this.buildPrompt(userInput)}
+## 6. 修正要求
+你上一次为该请求生成的查询未通过 FOFA 语法校验，必须修正后重新输出。
+
+上一次生成的查询：
+${invalidQuery}
+
+校验器返回的错误：
+${error}
+
+请只修正错误指出的问题，保持用户原始意图不变，仍然按照第 5 节的要求返回严格的 JSON 对象。如果无法用合法的 FOFA 语法表达该请求，请将 \`fofa_query\` 设为 null 并说明原因。
+`;
   }
 
   /**
@@ -13,28 +13,72 @@ import {
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import * as dotenv from 'dotenv';
-import { LLMService } from './llmService.js';
-import { FofaService } from './fofaService.js';
+import { parseArgs } from 'util';
+import { Orchestrator, ExecutionOptions } from './orchestrator.js';
+import { NotificationReporter } from './reporter.js';
+import { FofaQueryParser } from './queryParser.js';
+import { FofaFieldCatalog } from './fieldCatalog.js';
+import { ResultPresenter } from './resultPresenter.js';
+import { ResultExporter, EXPORT_FORMATS } from './resultExporter.js';
+import { TargetListBuilder, TARGET_LIST_FORMATS } from './targetList.js';
+import { QueryHistory, DEFAULT_HISTORY_LIMIT } from './queryHistory.js';
+import { SettingsLoader, SETTINGS_CLI_OPTIONS, SettingsCliValues } from './settings.js';
 import {
-  LLMConfig,
-  FofaConfig,
+  QueryDefaults,
   NaturalLanguageQueryArgs,
   DirectFofaQueryArgs,
-  QueryResult
+  ProcessResult,
+  QueryRepairAttempt,
+  CollectResultsArgs,
+  StatsQueryArgs,
+  FofaStatsResult,
+  HostLookupArgs,
+  FofaHostProfile,
+  AccountStatusArgs,
+  QueryPreview,
+  ExportTargetsArgs,
+  TranslationCacheStatus,
+  QueryHistoryArgs,
+  ReplayQueryArgs,
+  QueryHistoryRecord,
+  RequestStats,
+  FofaErrorKind
 } from './types.js';
 
 // 加载环境变量
 dotenv.config();
 
+/**
+ * 查询类工具共用的执行和导出选项
+ */
+type QueryOptions = Pick<CollectResultsArgs, 'fields' | 'dryRun' | 'confirm' | 'outputPath' | 'outputFormat' | 'cache' | 'profile'>;
+
+/**
+ * 一个配置档案对应的编排器和查询默认值
+ */
+interface ProfileServices {
+  orchestrator: Orchestrator;
+  defaults: QueryDefaults;
+}
+
 /**
  * MCP服务器类
  */
 class NL2FOFAMCPServer {
   private server: Server;
-  private llmService: LLMService | null = null;
-  private fofaService: FofaService | null = null;
+  private cliValues: SettingsCliValues;
+  private services = new Map<string, ProfileServices>();
+  private history: QueryHistory | null = null;
 
   constructor() {
+    // 启动参数与 CLI 相同（如 --profile、--model、--config）
+    this.cliValues = parseArgs({ args: process.argv.slice(2), options: SETTINGS_CLI_OPTIONS }).values;
+
+    // 查询历史，NL2FOFA_HISTORY 为 off 时不记录
+    if (!['off', 'false', '0'].includes((process.env.NL2FOFA_HISTORY ?? '').toLowerCase())) {
+      this.history = this.openHistory();
+    }
+
     this.server = new Server(
       {
         name: 'nl2fofa-server',
@@ -43,6 +87,7 @@ class NL2FOFAMCPServer {
       {
         capabilities: {
           tools: {},
+          logging: {},
         },
       }
     );
@@ -52,45 +97,24 @@ class NL2FOFAMCPServer {
   }
 
   /**
-   * 初始化服务
+   * 获取配置档案对应的服务，首次使用时加载配置并创建编排器
+   * @param profile 工具参数指定的档案，不指定时使用 NL2FOFA_PROFILE、--profile 或配置文件的默认档案
+   * @throws SettingsError 配置无效或缺少必需的凭据时抛出
    */
-  private initializeServices(): boolean {
-    try {
-      // 验证环境变量
-      const requiredEnvVars = {
-        LLM_API_KEY: process.env.LLM_API_KEY,
-        FOFA_EMAIL: process.env.FOFA_EMAIL,
-        FOFA_API_KEY: process.env.FOFA_API_KEY
-      };
-
-      const missingVars = Object.entries(requiredEnvVars)
-        .filter(([, value]) => !value)
-        .map(([key]) => key);
-
-      if (missingVars.length > 0) {
-        console.error('❌ 缺少必要的环境变量配置:', missingVars.join(', '));
-        return false;
-      }
-
-      // 初始化服务
-      const llmConfig: LLMConfig = {
-        apiKey: requiredEnvVars.LLM_API_KEY!,
-        apiUrl: process.env.LLM_API_URL || 'https://api.openai.com/v1/chat/completions'
+  private servicesFor(profile?: string): ProfileServices {
+    const key = profile ?? '';
+    let services = this.services.get(key);
+    if (!services) {
+      const settings = SettingsLoader.load(this.cliValues, process.env, profile);
+      const { llmConfig, fofaConfig } = SettingsLoader.serviceConfig(settings);
+      services = {
+        // 执行进度写入stderr，并作为日志通知发送给客户端
+        orchestrator: new Orchestrator(llmConfig, fofaConfig, new NotificationReporter((message) => this.notify(message))),
+        defaults: settings.defaults
       };
-
-      const fofaConfig: FofaConfig = {
-        email: requiredEnvVars.FOFA_EMAIL!,
-        apiKey: requiredEnvVars.FOFA_API_KEY!
-      };
-
-      this.llmService = new LLMService(llmConfig);
-      this.fofaService = new FofaService(fofaConfig);
-
-      return true;
-    } catch (error) {
-      console.error('❌ 服务初始化失败:', error);
-      return false;
+      this.services.set(key, services);
     }
+    return services;
   }
 
   /**
@@ -117,6 +141,40 @@ class NL2FOFAMCPServer {
                   default: 50,
                   minimum: 1,
                   maximum: 1000
+                },
+                fields: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: '返回字段列表，默认 ["ip","port","title","host"]，可选如 country、server、protocol、cert.subject.cn、banner、asn、org、icon_hash、lastupdatetime 等'
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: '只返回查询语句、查询结构和预计F点消耗，不执行查询',
+                  default: false
+                },
+                confirm: {
+                  type: 'boolean',
+                  description: '确认执行：预计F点消耗超过服务端配置的阈值（FOFA_CONFIRM_FPOINTS）时必须传入 true',
+                  default: false
+                },
+                cache: {
+                  type: 'string',
+                  enum: ['default', 'refresh', 'bypass'],
+                  description: '本地结果缓存策略：default 优先使用未过期的缓存（不消耗F点），refresh 忽略缓存重新查询并更新缓存，bypass 不读取也不写入缓存',
+                  default: 'default'
+                },
+                outputPath: {
+                  type: 'string',
+                  description: '将完整结果导出到服务器上的该文件路径，例如 /tmp/jenkins.csv'
+                },
+                outputFormat: {
+                  type: 'string',
+                  enum: [...EXPORT_FORMATS],
+                  description: '导出格式：csv、json、ndjson、html（带统计信息和可排序表格的报告），默认按文件扩展名推断'
+                },
+                profile: {
+                  type: 'string',
+                  description: '使用的配置档案（配置文件 profiles 中的名称），不指定时使用服务端选择的档案'
                 }
               },
               required: ['query']
@@ -138,10 +196,287 @@ class NL2FOFAMCPServer {
                   default: 50,
                   minimum: 1,
                   maximum: 1000
+                },
+                fields: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: '返回字段列表，默认 ["ip","port","title","host"]，可选如 country、server、protocol、cert.subject.cn、banner、asn、org、icon_hash、lastupdatetime 等'
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: '只返回查询语句、查询结构和预计F点消耗，不执行查询',
+                  default: false
+                },
+                confirm: {
+                  type: 'boolean',
+                  description: '确认执行：预计F点消耗超过服务端配置的阈值（FOFA_CONFIRM_FPOINTS）时必须传入 true',
+                  default: false
+                },
+                cache: {
+                  type: 'string',
+                  enum: ['default', 'refresh', 'bypass'],
+                  description: '本地结果缓存策略：default 优先使用未过期的缓存（不消耗F点），refresh 忽略缓存重新查询并更新缓存，bypass 不读取也不写入缓存',
+                  default: 'default'
+                },
+                outputPath: {
+                  type: 'string',
+                  description: '将完整结果导出到服务器上的该文件路径，例如 /tmp/jenkins.csv'
+                },
+                outputFormat: {
+                  type: 'string',
+                  enum: [...EXPORT_FORMATS],
+                  description: '导出格式：csv、json、ndjson、html（带统计信息和可排序表格的报告），默认按文件扩展名推断'
+                },
+                profile: {
+                  type: 'string',
+                  description: '使用的配置档案（配置文件 profiles 中的名称），不指定时使用服务端选择的档案'
                 }
               },
               required: ['fofaQuery']
             }
+          },
+          {
+            name: 'collect_fofa_results',
+            description: '批量收集FOFA结果：自动翻页直到达到目标数量、取完全部结果或触及F点上限，合并去重后返回收集摘要。query（自然语言）与 fofaQuery（FOFA语法）二选一',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: '自然语言查询描述，会先转换为FOFA查询语法'
+                },
+                fofaQuery: {
+                  type: 'string',
+                  description: 'FOFA查询语法，例如：app="Jenkins" && country="US"'
+                },
+                target: {
+                  type: 'number',
+                  description: '目标收集数量，默认500',
+                  default: 500,
+                  minimum: 1
+                },
+                pageSize: {
+                  type: 'number',
+                  description: '每页数量，默认100，最大10000',
+                  default: 100,
+                  minimum: 1,
+                  maximum: 10000
+                },
+                maxFpoints: {
+                  type: 'number',
+                  description: 'F点消耗上限，继续翻页会超出上限时停止并标记为截断',
+                  minimum: 0
+                },
+                fields: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: '返回字段列表，默认 ["ip","port","title","host"]'
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: '只返回查询语句、查询结构和预计F点消耗，不执行查询',
+                  default: false
+                },
+                confirm: {
+                  type: 'boolean',
+                  description: '确认执行：预计F点消耗超过服务端配置的阈值（FOFA_CONFIRM_FPOINTS）时必须传入 true',
+                  default: false
+                },
+                cache: {
+                  type: 'string',
+                  enum: ['default', 'refresh', 'bypass'],
+                  description: '本地结果缓存策略：default 优先使用未过期的缓存（不消耗F点），refresh 忽略缓存重新查询并更新缓存，bypass 不读取也不写入缓存',
+                  default: 'default'
+                },
+                outputPath: {
+                  type: 'string',
+                  description: '将完整结果导出到服务器上的该文件路径，例如 /tmp/jenkins.csv'
+                },
+                outputFormat: {
+                  type: 'string',
+                  enum: [...EXPORT_FORMATS],
+                  description: '导出格式：csv、json、ndjson、html（带统计信息和可排序表格的报告），默认按文件扩展名推断'
+                },
+                profile: {
+                  type: 'string',
+                  description: '使用的配置档案（配置文件 profiles 中的名称），不指定时使用服务端选择的档案'
+                }
+              }
+            }
+          },
+          {
+            name: 'fofa_stats',
+            description: 'FOFA聚合统计：获取查询结果在指定字段上的分布排名（如按国家、端口、服务器统计），不返回资产明细。query（自然语言）与 fofaQuery（FOFA语法）二选一',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: '自然语言查询描述，例如："暴露在公网的Jenkins"'
+                },
+                fofaQuery: {
+                  type: 'string',
+                  description: 'FOFA查询语法，例如：app="Jenkins"'
+                },
+                fields: {
+                  type: 'array',
+                  items: {
+                    type: 'string',
+                    enum: ['protocol', 'domain', 'port', 'title', 'os', 'server', 'country', 'asn', 'org', 'asset_type', 'fid', 'icp']
+                  },
+                  description: '聚合字段，默认 ["country","port","server"]'
+                },
+                profile: {
+                  type: 'string',
+                  description: '使用的配置档案（配置文件 profiles 中的名称），不指定时使用服务端选择的档案'
+                }
+              }
+            }
+          },
+          {
+            name: 'account_status',
+            description: '账户状态检查：查询FOFA会员等级、剩余F点和API查询配额，并检查LLM接口是否可用',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                checkLlm: {
+                  type: 'boolean',
+                  description: '是否同时检查LLM接口，默认true',
+                  default: true
+                },
+                profile: {
+                  type: 'string',
+                  description: '使用的配置档案（配置文件 profiles 中的名称），不指定时使用服务端选择的档案'
+                }
+              }
+            }
+          },
+          {
+            name: 'export_targets',
+            description: '导出扫描目标列表：收集查询结果并转换为下游扫描器可直接读取的目标列表（ip:port、URL、按IP分组的nmap端口参数、去重的域名）。query（自然语言）与 fofaQuery（FOFA语法）二选一',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: '自然语言查询描述，会先转换为FOFA查询语法'
+                },
+                fofaQuery: {
+                  type: 'string',
+                  description: 'FOFA查询语法，例如：app="Jenkins" && country="US"'
+                },
+                format: {
+                  type: 'string',
+                  enum: [...TARGET_LIST_FORMATS],
+                  description: '目标列表格式：ip-port 为 ip:port 列表；url 由 host/protocol 生成并补全 http/https；nmap 按IP汇总端口，每行一条 nmap 命令；domain 为去重的域名列表'
+                },
+                target: {
+                  type: 'number',
+                  description: '最多收集的结果数量，默认500',
+                  default: 500,
+                  minimum: 1
+                },
+                maxFpoints: {
+                  type: 'number',
+                  description: 'F点消耗上限',
+                  minimum: 0
+                },
+                confirm: {
+                  type: 'boolean',
+                  description: '确认执行：预计F点消耗超过服务端配置的阈值（FOFA_CONFIRM_FPOINTS）时必须传入 true',
+                  default: false
+                },
+                outputPath: {
+                  type: 'string',
+                  description: '将目标列表写入服务器上的该文件路径，例如 /tmp/targets.txt'
+                },
+                profile: {
+                  type: 'string',
+                  description: '使用的配置档案（配置文件 profiles 中的名称），不指定时使用服务端选择的档案'
+                }
+              },
+              required: ['format']
+            }
+          },
+          {
+            name: 'query_history',
+            description: '查询历史：查看以前执行过的自然语言查询和直接查询，包括生成的FOFA语句、结果数量、F点消耗和是否成功，返回的ID可用于 replay_query',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                search: {
+                  type: 'string',
+                  description: '搜索词，匹配用户输入、FOFA查询语句或查询说明（不区分大小写）'
+                },
+                limit: {
+                  type: 'number',
+                  description: `最多返回的记录数，默认${DEFAULT_HISTORY_LIMIT}`,
+                  default: DEFAULT_HISTORY_LIMIT,
+                  minimum: 1
+                }
+              }
+            }
+          },
+          {
+            name: 'replay_query',
+            description: '重放历史查询：按 query_history 返回的ID重新执行以前的查询。已生成FOFA语句的记录直接执行该语句（不再调用LLM），并沿用原来的返回字段、结果数量和收集选项',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string',
+                  description: '历史记录ID，支持唯一的ID前缀'
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: '只返回查询语句、查询结构和预计F点消耗，不执行查询',
+                  default: false
+                },
+                confirm: {
+                  type: 'boolean',
+                  description: '确认执行：预计F点消耗超过服务端配置的阈值（FOFA_CONFIRM_FPOINTS）时必须传入 true',
+                  default: false
+                },
+                cache: {
+                  type: 'string',
+                  enum: ['default', 'refresh', 'bypass'],
+                  description: '本地结果缓存策略：default 优先使用未过期的缓存（不消耗F点），refresh 忽略缓存重新查询并更新缓存，bypass 不读取也不写入缓存',
+                  default: 'default'
+                },
+                outputPath: {
+                  type: 'string',
+                  description: '将完整结果导出到服务器上的该文件路径，例如 /tmp/jenkins.csv'
+                },
+                outputFormat: {
+                  type: 'string',
+                  enum: [...EXPORT_FORMATS],
+                  description: '导出格式：csv、json、ndjson、html（带统计信息和可排序表格的报告），默认按文件扩展名推断'
+                },
+                profile: {
+                  type: 'string',
+                  description: '使用的配置档案（配置文件 profiles 中的名称），不指定时使用服务端选择的档案'
+                }
+              },
+              required: ['id']
+            }
+          },
+          {
+            name: 'host_lookup',
+            description: '主机画像：查询单个IP在FOFA中的全部已知信息（开放端口、协议、产品、ASN/组织、更新时间），用于从搜索结果下钻到单个资产',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                ip: {
+                  type: 'string',
+                  description: 'IP地址，例如：1.1.1.1'
+                },
+                profile: {
+                  type: 'string',
+                  description: '使用的配置档案（配置文件 profiles 中的名称），不指定时使用服务端选择的档案'
+                }
+              },
+              required: ['ip']
+            }
           }
         ] as Tool[]
       };
@@ -152,13 +487,6 @@ class NL2FOFAMCPServer {
       const { name, arguments: args } = request.params;
 
       try {
-        // 确保服务已初始化
-        if (!this.llmService || !this.fofaService) {
-          if (!this.initializeServices()) {
-            throw new Error('服务初始化失败，请检查环境变量配置');
-          }
-        }
-
         switch (name) {
           case 'natural_language_query': { 
             const typedArgs = args as unknown as NaturalLanguageQueryArgs;
@@ -174,6 +502,52 @@ class NL2FOFAMCPServer {
             }
             return await this.handleDirectFofaQuery(typedArgs);
           }
+          case 'collect_fofa_results': {
+            const typedArgs = args as unknown as CollectResultsArgs;
+            if (!typedArgs.query && !typedArgs.fofaQuery) {
+              throw new Error('缺少必需参数: query 或 fofaQuery');
+            }
+            return await this.handleCollectResults(typedArgs);
+          }
+          case 'export_targets': {
+            const typedArgs = args as unknown as ExportTargetsArgs;
+            if (!typedArgs.query && !typedArgs.fofaQuery) {
+              throw new Error('缺少必需参数: query 或 fofaQuery');
+            }
+            if (!TargetListBuilder.isTargetFormat(typedArgs.format ?? '')) {
+              throw new Error(`format 参数需要为: ${TARGET_LIST_FORMATS.join(', ')}`);
+            }
+            return await this.handleExportTargets(typedArgs);
+          }
+          case 'fofa_stats': {
+            const typedArgs = args as unknown as StatsQueryArgs;
+            if (!typedArgs.query && !typedArgs.fofaQuery) {
+              throw new Error('缺少必需参数: query 或 fofaQuery');
+            }
+            return await this.handleStatsQuery(typedArgs);
+          }
+          case 'account_status': {
+            const typedArgs = (args ?? {}) as unknown as AccountStatusArgs;
+            return await this.handleAccountStatus(typedArgs);
+          }
+          case 'host_lookup': {
+            const typedArgs = args as unknown as HostLookupArgs;
+            if (!typedArgs.ip) {
+              throw new Error('缺少必需参数: ip');
+            }
+            return await this.handleHostLookup(typedArgs);
+          }
+          case 'query_history': {
+            const typedArgs = (args ?? {}) as unknown as QueryHistoryArgs;
+            return await this.handleQueryHistory(typedArgs);
+          }
+          case 'replay_query': {
+            const typedArgs = args as unknown as ReplayQueryArgs;
+            if (!typedArgs.id) {
+              throw new Error('缺少必需参数: id');
+            }
+            return await this.handleReplayQuery(typedArgs);
+          }
 
           default:
             throw new Error(`未知的工具: ${name}`);
@@ -196,39 +570,155 @@ class NL2FOFAMCPServer {
    * 处理自然语言查询
    */
   private async handleNaturalLanguageQuery(args: NaturalLanguageQueryArgs) {
-    const { query, size = 50 } = args;
+    const { query, size = this.servicesFor(args.profile).defaults.size ?? 50 } = args;
+    return this.runQuery('natural', query, { size }, args, '查询失败');
+  }
 
+  /**
+   * 处理直接FOFA查询
+   */
+  private async handleDirectFofaQuery(args: DirectFofaQueryArgs) {
+    const { fofaQuery, size = this.servicesFor(args.profile).defaults.size ?? 50 } = args;
+    return this.runQuery('direct', fofaQuery, { size }, args, '查询失败');
+  }
+
+  /**
+   * 处理批量收集：自动翻页并合并去重
+   */
+  private async handleCollectResults(args: CollectResultsArgs) {
+    const { target = 500, pageSize, maxFpoints } = args;
+    const mode = args.fofaQuery ? 'direct' : 'natural';
+    const input = args.fofaQuery ?? args.query!;
+    return this.runQuery(mode, input, { collect: { target, pageSize, maxFpoints } }, args, '收集失败');
+  }
+
+  /**
+   * 通过编排器执行查询并格式化工具响应，按需将完整结果导出到文件
+   */
+  private async runQuery(
+    mode: 'natural' | 'direct',
+    input: string,
+    request: Pick<QueryHistoryRecord, 'size' | 'collect'>,
+    options: QueryOptions,
+    failure: string
+  ) {
     try {
-      // 第一步：将自然语言转换为FOFA查询
-      const llmResponse = await this.llmService!.convertTextToFofaQuery(query);
-      
-      if (!llmResponse.fofa_query) {
+      // 先校验导出格式，避免查询消耗F点后才发现无法导出；导出目标列表时补充所需字段
+      const outputFormat = options.outputPath ? ResultExporter.resolveFormat(options.outputPath, options.outputFormat) : undefined;
+      const fields = options.fields ?? this.servicesFor(options.profile).defaults.fields;
+      const resultFields = TargetListBuilder.withRequiredFields(FofaFieldCatalog.normalizeResultFields(fields), outputFormat);
+
+      const result = await this.execute(mode, input, request, resultFields, options);
+      await this.recordHistory(mode, input, request, result);
+
+      if (!result.success || result.preview) {
         return {
           content: [
             {
               type: 'text',
-              text: `❌ 无法理解查询请求: "${query}"\n${llmResponse.explanation}`
+              text: this.formatHalted(result, failure)
             }
           ]
         };
       }
 
-      // 第二步：执行FOFA查询
-      const results = await this.fofaService!.executeFofaQuery(llmResponse.fofa_query, size);
+      const exportLog = await this.exportResult(result, options.outputPath, outputFormat);
 
-      const result: QueryResult = {
-        success: true,
-        results: results,
-        query: llmResponse.fofa_query,
-        explanation: llmResponse.explanation,
-        count: results.length
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatQueryResult(result) + exportLog
+          }
+        ]
       };
 
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '未知错误';
       return {
         content: [
           {
             type: 'text',
-            text: this.formatQueryResult(result)
+            text: `❌ ${failure}: ${errorMessage}`
+          }
+        ]
+      };
+    }
+  }
+
+  /**
+   * 调用编排器执行查询：自然语言先翻译，设置收集选项时自动翻页；
+   * 预计消耗超过确认阈值时只有传入 confirm: true 才继续执行
+   */
+  private execute(
+    mode: 'natural' | 'direct',
+    input: string,
+    request: Pick<QueryHistoryRecord, 'size' | 'collect'>,
+    fields: string[],
+    options: QueryOptions
+  ): Promise<ProcessResult> {
+    const execution: ExecutionOptions = {
+      dryRun: options.dryRun,
+      confirm: async () => options.confirm === true,
+      cacheMode: options.cache
+    };
+
+    const { orchestrator } = this.servicesFor(options.profile);
+    return mode === 'natural'
+      ? orchestrator.processUserQuery(input, request.size, fields, request.collect, execution)
+      : orchestrator.executeDirectQuery(input, request.size, fields, request.collect, execution);
+  }
+
+  /**
+   * 处理扫描目标列表导出
+   */
+  private async handleExportTargets(args: ExportTargetsArgs) {
+    const { format, target = 500, maxFpoints, confirm, outputPath, profile } = args;
+    const mode = args.fofaQuery ? 'direct' : 'natural';
+    const input = args.fofaQuery ?? args.query!;
+    const request = { collect: { target, maxFpoints } };
+
+    try {
+      const result = await this.execute(mode, input, request, TargetListBuilder.requiredFields(format), { confirm, profile });
+      await this.recordHistory(mode, input, request, result);
+
+      if (!result.success || result.preview) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: this.formatHalted(result, '导出失败')
+            }
+          ]
+        };
+      }
+
+      const results = result.data ?? [];
+      const targets = TargetListBuilder.build(results, format);
+
+      let text = `🎯 扫描目标列表（${format}）\n`;
+      text += `📝 查询语句: ${result.query}\n`;
+      text += `💡 查询说明: ${result.explanation}\n`;
+      text += `📊 收集结果 ${results.length} 条，生成目标 ${targets.length} 个，消耗F点 ${result.consumedFpoints ?? 0}\n`;
+      text += this.formatTranslationCache(result.translationCache);
+      text += this.formatRepairAttempts(result.repairAttempts);
+
+      if (outputPath) {
+        const filePath = await ResultExporter.exportToFile(
+          { results, fields: result.fields ?? [], query: result.query, explanation: result.explanation },
+          outputPath,
+          format
+        );
+        text += `\n💾 已将目标列表写入: ${filePath}`;
+      } else {
+        text += `\n${targets.join('\n')}`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text
           }
         ]
       };
@@ -239,7 +729,7 @@ class NL2FOFAMCPServer {
         content: [
           {
             type: 'text',
-            text: `❌ 查询失败: ${errorMessage}`
+            text: `❌ 导出失败: ${errorMessage}`
           }
         ]
       };
@@ -247,58 +737,436 @@ class NL2FOFAMCPServer {
   }
 
   /**
-   * 处理直接FOFA查询
+   * 处理聚合统计查询
    */
-  private async handleDirectFofaQuery(args: DirectFofaQueryArgs) {
-    const { fofaQuery, size = 50 } = args;
+  private async handleStatsQuery(args: StatsQueryArgs) {
+    const mode = args.fofaQuery ? 'direct' : 'natural';
+    const result = await this.servicesFor(args.profile).orchestrator.processStatsQuery(args.fofaQuery ?? args.query!, mode, args.fields);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: result.success
+            ? this.formatStatsResult(result.stats!, result.explanation!) + this.formatTranslationCache(result.translationCache) + this.formatRepairAttempts(result.repairAttempts)
+            : this.formatHalted(result, '统计失败')
+        }
+      ]
+    };
+  }
+
+  /**
+   * 处理账户状态检查
+   */
+  private async handleAccountStatus(args: AccountStatusArgs) {
+    const { checkLlm = true } = args;
+    const report = (await this.servicesFor(args.profile).orchestrator.checkConfiguration(checkLlm)).configuration!;
+
+    let output = report.ok ? '✅ 配置检查通过\n\n' : '❌ 配置检查未通过\n\n';
+
+    if (report.fofa.ok && report.fofa.account) {
+      const account = report.fofa.account;
+      output += `🔑 FOFA API: 可用 (${report.fofa.latencyMs}ms)\n`;
+      output += `- 账户: ${account.username || '-'} <${account.email}>\n`;
+      output += `- 密钥: ${account.servedBy}\n`;
+      output += `- 会员等级: ${account.membership}\n`;
+      output += `- 剩余F点: ${account.fofaPoints}（免费F点 ${account.remainFreePoints}）\n`;
+      output += `- 剩余API查询次数: ${account.remainApiQuery ?? '未知'}\n`;
+      output += `- 剩余可获取数据: ${account.remainApiData !== undefined ? `${account.remainApiData} 条` : '未知'}\n`;
+    } else {
+      output += `🔑 FOFA API: ❌ ${report.fofa.error}\n`;
+    }
+
+    if (report.llm.skipped) {
+      output += '🤖 LLM API: 已跳过\n';
+    } else {
+      output += report.llm.ok
+        ? `🤖 LLM API: 可用 (${report.llm.latencyMs}ms)\n`
+        : `🤖 LLM API: ❌ ${report.llm.error}\n`;
+    }
+
+    if (report.warnings.length > 0) {
+      output += '\n⚠️ 提醒:\n';
+      report.warnings.forEach((warning) => {
+        output += `- ${warning}\n`;
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: output
+        }
+      ]
+    };
+  }
+
+  /**
+   * 处理主机画像查询
+   */
+  private async handleHostLookup(args: HostLookupArgs) {
+    const result = await this.servicesFor(args.profile).orchestrator.lookupHost(args.ip);
 
+    return {
+      content: [
+        {
+          type: 'text',
+          text: result.success
+            ? this.formatHostProfile(result.host!)
+            : `❌ 主机画像查询失败: ${result.error}` + this.formatErrorAdvice(result.errorKind)
+        }
+      ]
+    };
+  }
+
+  /**
+   * 处理查询历史
+   */
+  private async handleQueryHistory(args: QueryHistoryArgs) {
     try {
-      const results = await this.fofaService!.executeFofaQuery(fofaQuery, size);
-
-      const result: QueryResult = {
-        success: true,
-        results: results,
-        query: fofaQuery,
-        explanation: '直接FOFA查询',
-        count: results.length
+      const records = await this.openHistory().list(args.search, args.limit);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatHistory(records, args.search)
+          }
+        ]
       };
 
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '未知错误';
       return {
         content: [
           {
             type: 'text',
-            text: this.formatQueryResult(result)
+            text: `❌ 读取查询历史失败: ${errorMessage}`
           }
         ]
       };
+    }
+  }
 
+  /**
+   * 处理历史查询重放：已生成FOFA语句的记录直接执行该语句，否则重新翻译自然语言
+   */
+  private async handleReplayQuery(args: ReplayQueryArgs) {
+    const { dryRun, confirm, cache, outputPath, outputFormat, profile } = args;
+
+    let record: QueryHistoryRecord | null;
+    try {
+      record = await this.openHistory().get(args.id);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : '未知错误';
       return {
         content: [
           {
             type: 'text',
-            text: `❌ 查询失败: ${errorMessage}`
+            text: `❌ 读取查询历史失败: ${errorMessage}`
           }
         ]
       };
     }
+
+    if (!record) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ 未找到历史记录: ${args.id}`
+          }
+        ]
+      };
+    }
+
+    const options = { fields: record.fields, dryRun, confirm, cache, outputPath, outputFormat, profile };
+    const response = record.collect
+      ? await this.handleCollectResults({
+        ...options,
+        ...record.collect,
+        query: record.query ? undefined : record.input,
+        fofaQuery: record.query
+      })
+      : record.query
+        ? await this.handleDirectFofaQuery({ ...options, fofaQuery: record.query, size: record.size })
+        : await this.handleNaturalLanguageQuery({ ...options, query: record.input, size: record.size });
+
+    const replayedAt = new Date(record.timestamp).toLocaleString('zh-CN');
+    response.content[0].text = `🔁 重放历史查询 ${record.id}（${replayedAt}）: ${record.input}\n\n${response.content[0].text}`;
+    return response;
+  }
+
+  /**
+   * 格式化主机画像
+   */
+  private formatHostProfile(profile: FofaHostProfile): string {
+    let output = `🖥️ 主机画像: ${profile.ip}\n`;
+    if (profile.host && profile.host !== profile.ip) {
+      output += `🏷️ 主机: ${profile.host}\n`;
+    }
+    if (profile.countryName || profile.countryCode) {
+      output += `🌍 国家: ${profile.countryName ?? ''}${profile.countryCode ? ` (${profile.countryCode})` : ''}\n`;
+    }
+    if (profile.asn !== undefined || profile.org) {
+      output += `🏢 ASN/组织: ${profile.asn ?? '-'} / ${profile.org ?? '-'}\n`;
+    }
+    output += `📡 协议: ${profile.protocols.join(', ') || '-'}\n`;
+    output += `📦 产品: ${profile.products.join(', ') || '-'}\n`;
+    if (profile.categories.length > 0) {
+      output += `🗂️ 分类: ${profile.categories.join(', ')}\n`;
+    }
+    if (profile.updateTime) {
+      output += `🕒 更新时间: ${profile.updateTime}\n`;
+    }
+    output += `🔑 FOFA密钥: ${profile.servedBy}\n`;
+    output += this.formatRequestStats(profile.requestStats);
+
+    output += `\n🔌 开放端口 (${profile.ports.length} 个):\n`;
+    if (profile.ports.length === 0) {
+      output += 'FOFA中没有该IP的端口数据\n';
+      return output;
+    }
+
+    profile.ports.forEach((item) => {
+      output += `- ${item.port}/${item.protocol || '?'}`;
+      if (item.products.length > 0) {
+        output += ` — ${item.products.join(', ')}`;
+      }
+      if (item.updateTime) {
+        output += ` (更新于 ${item.updateTime})`;
+      }
+      output += '\n';
+    });
+
+    return output;
+  }
+
+  /**
+   * 格式化聚合统计结果，每个字段输出前10名
+   */
+  private formatStatsResult(stats: FofaStatsResult, explanation: string): string {
+    let output = `📊 FOFA聚合统计\n`;
+    output += `📝 查询语句: ${stats.query}\n`;
+    output += `💡 查询说明: ${explanation}\n`;
+    output += `📦 匹配资产总数: ${stats.total}\n`;
+    Object.entries(stats.distinct).forEach(([field, count]) => {
+      output += `🔢 独立${FofaFieldCatalog.resultFieldLabel(field)}数: ${count}\n`;
+    });
+    output += `🔑 FOFA密钥: ${stats.servedBy}\n`;
+    output += this.formatRequestStats(stats.requestStats);
+
+    const entries = Object.entries(stats.aggregations);
+    if (entries.length === 0) {
+      output += '\n🔍 未返回任何聚合结果';
+      return output;
+    }
+
+    entries.forEach(([field, buckets]) => {
+      output += `\n🏆 ${FofaFieldCatalog.resultFieldLabel(field)} 排名:\n`;
+      ResultPresenter.rankBuckets(buckets, stats.total, 10).forEach((row) => {
+        output += `${row.排名}. ${row.名称} — ${row.数量} (${row.占比})\n`;
+      });
+    });
+
+    return output;
+  }
+
+  /**
+   * 格式化未执行完成的查询：dry-run 预览、需要确认的预览或失败信息
+   */
+  private formatHalted(result: ProcessResult, failure: string): string {
+    let text: string;
+    if (result.preview) {
+      text = this.formatQueryPreview(result.preview, result.explanation ?? '');
+      if (!result.success) {
+        text += `\n⚠️ ${result.error}。确认执行请重新调用并传入 confirm: true`;
+      }
+    } else {
+      text = `❌ ${failure}: ${result.error ?? '未知错误'}` + this.formatErrorAdvice(result.errorKind);
+    }
+
+    return text + this.formatRepairAttempts(result.repairAttempts);
+  }
+
+  /**
+   * 格式化执行前预览
+   */
+  private formatQueryPreview(preview: QueryPreview, explanation: string): string {
+    const { estimate } = preview;
+
+    let output = `🧮 执行前预览（未执行查询）\n`;
+    output += `📝 查询语句: ${preview.query}\n`;
+    output += `💡 查询说明: ${explanation}\n`;
+    output += `🌳 查询结构:\n${FofaQueryParser.formatAst(preview.ast)}\n`;
+    output += `📊 匹配总数: ${estimate.total} 条\n`;
+    output += `📦 预计返回: ${estimate.expectedResults} 条\n`;
+    output += `💰 预计消耗F点: ${estimate.estimatedFpoints}（每条约 ${estimate.perResultFpoints} F点，预检已消耗 ${estimate.probeConsumedFpoints}）\n`;
+    if (preview.threshold !== undefined) {
+      output += `${preview.requiresConfirmation ? '⚠️' : '✅'} 确认阈值: ${preview.threshold} F点\n`;
+    }
+
+    return output;
+  }
+
+  /**
+   * 按需将完整结果导出到文件，返回附加到工具响应中的说明，未指定路径时返回空字符串
+   */
+  private async exportResult(result: ProcessResult, outputPath?: string, outputFormat?: string): Promise<string> {
+    if (!outputPath) {
+      return '';
+    }
+
+    const format = ResultExporter.resolveFormat(outputPath, outputFormat);
+    const filePath = await ResultExporter.exportToFile(
+      {
+        results: result.data ?? [],
+        fields: result.fields ?? FofaFieldCatalog.normalizeResultFields(),
+        query: result.query,
+        explanation: result.explanation,
+        collection: result.collection,
+        consumedFpoints: result.consumedFpoints
+      },
+      outputPath,
+      format
+    );
+
+    return `\n\n💾 已将 ${result.data?.length ?? 0} 条结果导出为 ${format.toUpperCase()}: ${filePath}`;
+  }
+
+  /**
+   * 打开查询历史用于查看和重放，不受 NL2FOFA_HISTORY 开关影响
+   */
+  private openHistory(): QueryHistory {
+    return new QueryHistory(process.env.NL2FOFA_HISTORY_DIR || QueryHistory.defaultDirectory());
+  }
+
+  /**
+   * 记录查询历史，写入失败不影响工具响应；未启用历史时忽略
+   */
+  private async recordHistory(
+    mode: 'natural' | 'direct',
+    input: string,
+    request: Pick<QueryHistoryRecord, 'size' | 'collect'>,
+    result: ProcessResult
+  ): Promise<void> {
+    // dry-run 未执行查询，不记录
+    if (!this.history || (result.success && result.preview)) {
+      return;
+    }
+
+    await this.history.record({
+      source: 'mcp',
+      mode,
+      input,
+      query: result.query ?? (mode === 'direct' ? input : undefined),
+      explanation: result.explanation,
+      fields: result.fields,
+      ...request,
+      resultCount: result.data?.length ?? 0,
+      consumedFpoints: result.consumedFpoints ?? 0,
+      success: result.success,
+      error: result.error
+    }).catch(() => undefined);
+  }
+
+  /**
+   * 格式化查询历史
+   */
+  private formatHistory(records: QueryHistoryRecord[], search?: string): string {
+    if (records.length === 0) {
+      return search ? `🕘 没有匹配 "${search}" 的历史记录` : '🕘 暂无查询历史';
+    }
+
+    let output = `🕘 查询历史（${records.length} 条${search ? `，搜索: ${search}` : ''}）\n`;
+    records.forEach((record) => {
+      output += `\n[${record.id}] ${new Date(record.timestamp).toLocaleString('zh-CN')} ${record.success ? '✅' : '❌'} ${record.mode === 'natural' ? '自然语言' : '直接查询'}\n`;
+      if (record.mode === 'natural') {
+        output += `   输入: ${record.input}\n`;
+      }
+      output += `   查询语句: ${record.query ?? '（未生成）'}\n`;
+      output += record.success
+        ? `   结果 ${record.resultCount} 条，消耗F点 ${record.consumedFpoints}\n`
+        : `   错误: ${record.error ?? '未知错误'}\n`;
+    });
+    return output;
+  }
+
+  /**
+   * 格式化翻译缓存状态，未命中时返回空字符串
+   */
+  private formatTranslationCache(status?: TranslationCacheStatus): string {
+    return status === 'hit' ? '♻️ 查询语句来自翻译缓存，未调用LLM\n' : '';
+  }
+
+  /**
+   * 格式化LLM查询修正记录，未发生修正时返回空字符串
+   */
+  private formatRepairAttempts(attempts?: QueryRepairAttempt[]): string {
+    if (!attempts || (attempts.length <= 1 && !attempts.some((attempt) => attempt.error))) {
+      return '';
+    }
+
+    let output = '\n🛠️ 查询修正记录:\n';
+    attempts.forEach((attempt) => {
+      const label = attempt.attempt === 0 ? '初次生成' : `第${attempt.attempt}次修正`;
+      output += `- [${label}] ${attempt.query ?? '(无查询)'}\n`;
+      output += attempt.error ? `  ❌ ${attempt.error}\n` : '  ✅ 通过校验\n';
+    });
+
+    return output;
+  }
+
+  /**
+   * 格式化FOFA请求的重试次数和等待时间，没有需要提示的内容时返回空字符串
+   */
+  private formatRequestStats(stats?: RequestStats): string {
+    const description = ResultPresenter.describeRequestStats(stats);
+    return description ? `🔁 请求调度: ${description}\n` : '';
+  }
+
+  /**
+   * 格式化与错误类型对应的解决方案
+   */
+  private formatErrorAdvice(kind?: FofaErrorKind): string {
+    return '\n💡 可能的解决方案:\n' + ResultPresenter.errorAdvice(kind).map((advice) => `- ${advice}`).join('\n');
   }
 
   /**
    * 格式化查询结果
    */
-  private formatQueryResult(result: QueryResult): string {
-    if (!result.success || !result.results) {
-      return `❌ 查询失败: ${result.error || '未知错误'}`;
+  private formatQueryResult(result: ProcessResult): string {
+    if (!result.success || !result.data) {
+      return `❌ 查询失败: ${result.error || '未知错误'}` + this.formatErrorAdvice(result.errorKind);
     }
 
-    const { results, query, explanation, count } = result;
+    const { data: results, query, explanation, repairAttempts, collection } = result;
 
     let output = `🔍 FOFA查询结果\n`;
     output += `📝 查询语句: ${query}\n`;
     output += `💡 查询说明: ${explanation}\n`;
-    output += `📊 结果数量: ${count} 条\n\n`;
+    output += `📊 结果数量: ${results.length} 条\n`;
+    if (result.consumedFpoints !== undefined) {
+      output += `💰 消耗F点: ${result.consumedFpoints}\n`;
+    }
+    if (result.cacheHit) {
+      output += '♻️ 结果来自本地缓存\n';
+    }
+    if (result.fofaKeys && result.fofaKeys.length > 0) {
+      output += `🔑 FOFA密钥: ${result.fofaKeys.join(', ')}\n`;
+    }
+    output += this.formatRequestStats(result.requestStats);
+    output += this.formatTranslationCache(result.translationCache);
+    if (collection) {
+      output += `📚 收集摘要: 获取 ${collection.pagesFetched} 页，FOFA报告总数 ${collection.total} 条，`;
+      output += `去重 ${collection.duplicatesRemoved} 条，消耗F点 ${collection.consumedFpoints}，`;
+      output += collection.cachedPages > 0 ? `缓存命中 ${collection.cachedPages} 页，` : '';
+      output += `停止原因: ${ResultPresenter.describeStopReason(collection.stopReason)}`;
+      output += collection.truncated ? '（⚠️ 结果已截断）\n' : '\n';
+    }
+    output += this.formatRepairAttempts(repairAttempts);
+    output += '\n';
 
     if (results.length === 0) {
       output += '🔍 未找到匹配的结果';
@@ -309,10 +1177,26 @@ class NL2FOFAMCPServer {
     const displayResults = results.slice(0, 10);
     output += '📋 查询结果 (显示前10条):\n\n';
 
+    const fields = result.fields ?? Object.keys(results[0]);
+    const hasAddress = fields.includes('ip') && fields.includes('port');
+
     displayResults.forEach((item, index) => {
-      output += `${index + 1}. IP: ${item.ip}:${item.port}\n`;
-      output += `   标题: ${item.title || 'N/A'}\n`;
-      output += `   主机: ${item.host || 'N/A'}\n\n`;
+      // ip 和 port 同时请求时合并为一行展示，其余字段逐行展示
+      const columns = hasAddress
+        ? fields.filter((field) => field !== 'ip' && field !== 'port')
+        : fields;
+      const lines = columns.map(
+        (field) => `${FofaFieldCatalog.resultFieldLabel(field)}: ${item[field] || 'N/A'}`
+      );
+      if (hasAddress) {
+        lines.unshift(`IP: ${item.ip}:${item.port}`);
+      }
+
+      output += `${index + 1}. ${lines[0]}\n`;
+      lines.slice(1).forEach((line) => {
+        output += `   ${line}\n`;
+      });
+      output += '\n';
     });
 
     if (results.length > 10) {
@@ -322,6 +1206,17 @@ class NL2FOFAMCPServer {
     return output;
   }
 
+  /**
+   * 将执行进度作为日志通知发送给客户端，客户端完成初始化前只写入stderr
+   */
+  private notify(message: string): void {
+    if (!this.server.getClientCapabilities()) {
+      return;
+    }
+
+    this.server.sendLoggingMessage({ level: 'info', logger: 'nl2fofa', data: message }).catch(() => undefined);
+  }
+
   /**
    * 设置错误处理
    */
@@ -343,6 +1238,30 @@ class NL2FOFAMCPServer {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('🚀 NL2FOFA MCP Server started');
+
+    // 启动时即检查凭据，避免等到第一次工具调用才发现配置错误（不阻塞启动）
+    void this.reportStartupCheck();
+  }
+
+  /**
+   * 启动时检查配置，并将结果写入stderr
+   */
+  private async reportStartupCheck(): Promise<void> {
+    try {
+      const report = (await this.servicesFor().orchestrator.checkConfiguration()).configuration!;
+      if (report.fofa.ok) {
+        const account = report.fofa.account!;
+        console.error(`✅ FOFA账户可用: ${account.email}（${account.membership}，剩余F点 ${account.fofaPoints}，剩余查询次数 ${account.remainApiQuery ?? '未知'}）`);
+      } else {
+        console.error(`❌ FOFA配置检查失败: ${report.fofa.error}`);
+      }
+      if (!report.llm.ok) {
+        console.error(`❌ ${report.llm.error}`);
+      }
+      report.warnings.forEach((warning) => console.error(`⚠️ ${warning}`));
+    } catch (error) {
+      console.error('❌ 配置检查失败:', error instanceof Error ? error.message : error);
+    }
   }
 }
 
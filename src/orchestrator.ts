@@ -1,82 +1,174 @@
 /**
  * Orchestrator - 编排器
- * 项目的核心，负责接收用户输入，按顺序调用LLM Service和FOFA Service，管理整个工作流程
+ * 项目的核心，负责接收用户输入，按顺序调用LLM Service和FOFA Service，管理整个工作流程。
+ * 编排器不直接输出任何内容：处理结果通过返回值交给调用方展示，执行进度通过 Reporter 发出
  */
 
 import { LLMService } from "./llmService.js";
 import { FofaService } from "./fofaService.js";
-import { ResultPresenter } from "./resultPresenter.js";
-import { ProcessResult, LLMConfig, FofaConfig } from "./types.js";
+import { FofaQueryParser, FofaQuerySyntaxError } from "./queryParser.js";
+import { FofaFieldCatalog } from "./fieldCatalog.js";
+import { ConfigurationChecker } from "./configurationChecker.js";
+import { FofaApiError } from "./fofaErrors.js";
+import { ResultDiff } from "./resultDiff.js";
+import { WatchStore, DEFAULT_WATCH_TARGET } from "./watchStore.js";
+import {
+  ProcessResult,
+  LLMConfig,
+  FofaConfig,
+  QueryRepairAttempt,
+  FofaResult,
+  FofaCollectOptions,
+  FofaCollectionSummary,
+  FofaStreamOptions,
+  QueryPreview,
+  CacheMode,
+  TranslationCacheStatus,
+  SavedQuery,
+  WatchReport,
+  LLMTranslation,
+  ProgressEvent,
+  Reporter,
+  RequestStats,
+} from "./types.js";
+
+/**
+ * 自动翻页收集选项（返回字段由调用方的 fields 参数决定）
+ */
+export type CollectOptions = Omit<FofaCollectOptions, "fields">;
+
+/**
+ * 执行控制选项
+ */
+export interface ExecutionOptions {
+  dryRun?: boolean; // 只预览查询结构和F点消耗，不执行查询
+  confirm?: (preview: QueryPreview) => Promise<boolean>; // 预计消耗超过阈值时询问是否继续，未提供时直接取消
+  cacheMode?: CacheMode; // 本地结果缓存策略，默认优先读取缓存
+}
 
 export class Orchestrator {
   private llmService: LLMService;
   private fofaService: FofaService;
+  private fofaConfig: FofaConfig;
+  private reporter?: Reporter;
 
-  constructor(llmConfig: LLMConfig, fofaConfig: FofaConfig) {
+  /**
+   * @param llmConfig LLM配置
+   * @param fofaConfig FOFA配置
+   * @param reporter 进度报告器，不设置时不报告进度
+   */
+  constructor(
+    llmConfig: LLMConfig,
+    fofaConfig: FofaConfig,
+    reporter?: Reporter
+  ) {
     this.llmService = new LLMService(llmConfig);
     this.fofaService = new FofaService(fofaConfig);
+    this.fofaConfig = fofaConfig;
+    this.reporter = reporter;
   }
 
   /**
    * 处理用户的自然语言输入，完成整个查询流程
    * @param userInput 用户的自然语言输入
    * @param resultSize 返回结果数量，默认50
+   * @param fields 返回字段列表，默认 ip,port,title,host
+   * @param collect 自动翻页收集选项，设置后忽略 resultSize
+   * @param execution 执行控制选项（dry-run、超过F点阈值时的确认）
    * @returns Promise<ProcessResult> 处理结果
    */
   async processUserQuery(
     userInput: string,
-    resultSize: number = 50
+    resultSize: number = 50,
+    fields?: string[],
+    collect?: CollectOptions,
+    execution: ExecutionOptions = {}
   ): Promise<ProcessResult> {
+    let repairAttempts: QueryRepairAttempt[] | undefined;
+    let translationCache: TranslationCacheStatus | undefined;
+
     try {
-      console.log("🤖 正在分析您的查询请求...");
+      const resultFields = FofaFieldCatalog.normalizeResultFields(fields);
 
-      // 第一步：调用LLM服务将自然语言转换为FOFA查询
-      const llmResponse = await this.llmService.convertTextToFofaQuery(
-        userInput
-      );
+      // 第一步：调用LLM服务将自然语言转换为FOFA查询，未通过校验时请求LLM修正
+      const llmResponse = await this.translate(userInput);
+      repairAttempts = llmResponse.attempts;
+      translationCache = llmResponse.cacheStatus;
 
       // 检查LLM是否成功生成了查询语句
       if (!llmResponse.fofa_query) {
         return {
           success: false,
           error: `无法理解您的查询请求: "${userInput}"\n${llmResponse.explanation}`,
+          repairAttempts,
+          translationCache,
         };
       }
 
-      console.log(`✅ 查询语句生成成功: ${llmResponse.fofa_query}`);
-      console.log(`📝 查询说明: ${llmResponse.explanation}`);
-      console.log("🔍 正在执行FOFA查询...");
-
-      // 第二步：调用FOFA服务执行查询
-      const fofaResults = await this.fofaService.executeFofaQuery(
+      // dry-run 或配置了确认阈值时，先预览查询结构和F点消耗
+      const halted = await this.preflight(
         llmResponse.fofa_query,
-        resultSize
+        llmResponse.explanation,
+        collect ? collect.target : resultSize,
+        resultFields,
+        execution,
+        collect ? this.collectPageSize(collect) : resultSize
       );
+      if (halted) {
+        return {
+          ...halted,
+          repairAttempts,
+          translationCache,
+          fields: resultFields,
+        };
+      }
 
-      console.log(`✅ 查询执行完成，找到 ${fofaResults.length} 条结果`);
+      this.emit({ type: "searching", query: llmResponse.fofa_query });
 
-      // 第三步：格式化并显示结果
-      ResultPresenter.presentResults(
-        fofaResults,
+      // 第二步：调用FOFA服务执行查询
+      const {
+        results: fofaResults,
+        collection,
+        consumedFpoints,
+        keysUsed,
+        requestStats,
+        cacheHit,
+      } = await this.fetchResults(
         llmResponse.fofa_query,
-        llmResponse.explanation
+        resultSize,
+        resultFields,
+        collect,
+        execution.cacheMode
       );
 
+      this.emit({
+        type: "fetched",
+        count: fofaResults.length,
+        consumedFpoints,
+        keysUsed,
+        requestStats,
+      });
+
       return {
         success: true,
         data: fofaResults,
         query: llmResponse.fofa_query,
         explanation: llmResponse.explanation,
+        repairAttempts,
+        translationCache,
+        fields: resultFields,
+        collection,
+        consumedFpoints,
+        fofaKeys: keysUsed,
+        requestStats,
+        cacheHit,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "未知错误";
-
-      // 显示错误信息
-      ResultPresenter.presentError(errorMessage);
-
       return {
         success: false,
-        error: errorMessage,
+        ...this.describeFailure(error),
+        repairAttempts,
+        translationCache,
       };
     }
   }
@@ -85,52 +177,671 @@ export class Orchestrator {
    * 直接执行FOFA查询（跳过LLM转换）
    * @param fofaQuery 直接的FOFA查询语句
    * @param resultSize 返回结果数量，默认50
+   * @param fields 返回字段列表，默认 ip,port,title,host
+   * @param collect 自动翻页收集选项，设置后忽略 resultSize
+   * @param execution 执行控制选项（dry-run、超过F点阈值时的确认）
    * @returns Promise<ProcessResult> 处理结果
    */
   async executeDirectQuery(
     fofaQuery: string,
-    resultSize: number = 50
+    resultSize: number = 50,
+    fields?: string[],
+    collect?: CollectOptions,
+    execution: ExecutionOptions = {}
   ): Promise<ProcessResult> {
     try {
-      console.log(`🔍 正在执行FOFA查询: ${fofaQuery}`);
+      const resultFields = FofaFieldCatalog.normalizeResultFields(fields);
 
-      // 直接调用FOFA服务执行查询
-      const fofaResults = await this.fofaService.executeFofaQuery(
+      const halted = await this.preflight(
         fofaQuery,
-        resultSize
+        "直接FOFA查询",
+        collect ? collect.target : resultSize,
+        resultFields,
+        execution,
+        collect ? this.collectPageSize(collect) : resultSize
       );
+      if (halted) {
+        return { ...halted, fields: resultFields };
+      }
 
-      console.log(`✅ 查询执行完成，找到 ${fofaResults.length} 条结果`);
+      this.emit({ type: "searching", query: fofaQuery });
 
-      // 格式化并显示结果
-      ResultPresenter.presentResults(fofaResults, fofaQuery, "直接FOFA查询");
+      // 直接调用FOFA服务执行查询
+      const {
+        results: fofaResults,
+        collection,
+        consumedFpoints,
+        keysUsed,
+        requestStats,
+        cacheHit,
+      } = await this.fetchResults(
+        fofaQuery,
+        resultSize,
+        resultFields,
+        collect,
+        execution.cacheMode
+      );
+
+      this.emit({
+        type: "fetched",
+        count: fofaResults.length,
+        consumedFpoints,
+        keysUsed,
+        requestStats,
+      });
 
       return {
         success: true,
         data: fofaResults,
         query: fofaQuery,
         explanation: "直接FOFA查询",
+        fields: resultFields,
+        collection,
+        consumedFpoints,
+        fofaKeys: keysUsed,
+        requestStats,
+        cacheHit,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        ...this.describeFailure(error),
+      };
+    }
+  }
+
+  /**
+   * 聚合统计查询：获取结果在指定字段上的分布，而不是资产明细
+   * @param input 自然语言输入或FOFA查询语句
+   * @param mode 输入类型：natural 为自然语言，direct 为FOFA查询语句
+   * @param fields 聚合字段，默认 country,port,server
+   * @returns Promise<ProcessResult> 处理结果，聚合数据位于 stats
+   */
+  async processStatsQuery(
+    input: string,
+    mode: "natural" | "direct",
+    fields?: string[]
+  ): Promise<ProcessResult> {
+    let repairAttempts: QueryRepairAttempt[] | undefined;
+    let translationCache: TranslationCacheStatus | undefined;
+
+    try {
+      const statsFields = FofaFieldCatalog.normalizeStatsFields(fields);
+      let fofaQuery = input;
+      let explanation = "直接FOFA查询";
+
+      if (mode === "natural") {
+        const llmResponse = await this.translate(input);
+        repairAttempts = llmResponse.attempts;
+        translationCache = llmResponse.cacheStatus;
+
+        if (!llmResponse.fofa_query) {
+          return {
+            success: false,
+            error: `无法理解您的查询请求: "${input}"\n${llmResponse.explanation}`,
+            repairAttempts,
+            translationCache,
+          };
+        }
+        fofaQuery = llmResponse.fofa_query;
+        explanation = llmResponse.explanation;
+      }
+
+      this.emit({ type: "aggregating", fields: statsFields });
+      const stats = await this.fofaService.searchStats(fofaQuery, statsFields);
+
+      return {
+        success: true,
+        query: fofaQuery,
+        explanation,
+        repairAttempts,
+        translationCache,
+        stats,
+        fofaKeys: [stats.servedBy],
+        requestStats: stats.requestStats,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        ...this.describeFailure(error),
+        repairAttempts,
+        translationCache,
+      };
+    }
+  }
+
+  /**
+   * 查询单个IP的主机画像（端口、协议、产品和更新时间）
+   * @param ip IP地址
+   * @returns Promise<ProcessResult> 处理结果，主机画像位于 host
+   */
+  async lookupHost(ip: string): Promise<ProcessResult> {
+    try {
+      this.emit({ type: "host_lookup", ip });
+      const host = await this.fofaService.lookupHost(ip);
+
+      return {
+        success: true,
+        host,
+        fofaKeys: [host.servedBy],
+        requestStats: host.requestStats,
+      };
+    } catch (error) {
+      return { success: false, ...this.describeFailure(error) };
+    }
+  }
+
+  /**
+   * 通过 search/next 游标流式读取大结果集，每条结果通过回调输出而不在内存中累积
+   * @param input 自然语言输入或FOFA查询语句
+   * @param mode 输入类型：natural 为自然语言，direct 为FOFA查询语句
+   * @param options 流式读取选项
+   * @param onResult 每条结果的回调
+   * @param execution 执行控制选项（dry-run、超过F点阈值时的确认）
+   * @param onStart 通过执行前检查、开始读取结果前的回调，如打开导出文件；
+   * 查询被取消或在此之前失败时不会调用
+   * @returns Promise<ProcessResult> 处理结果（不包含 data，包含流式读取摘要）
+   */
+  async streamQuery(
+    input: string,
+    mode: "natural" | "direct",
+    options: Omit<FofaStreamOptions, "onBatch">,
+    onResult: (result: FofaResult) => void,
+    execution: ExecutionOptions = {},
+    onStart?: () => Promise<void>
+  ): Promise<ProcessResult> {
+    let repairAttempts: QueryRepairAttempt[] | undefined;
+    let translationCache: TranslationCacheStatus | undefined;
+
+    try {
+      const resultFields = FofaFieldCatalog.normalizeResultFields(
+        options.fields
+      );
+      let fofaQuery = input;
+      let explanation = "直接FOFA查询";
+
+      if (mode === "natural") {
+        const llmResponse = await this.translate(input);
+        repairAttempts = llmResponse.attempts;
+        translationCache = llmResponse.cacheStatus;
+
+        if (!llmResponse.fofa_query) {
+          return {
+            success: false,
+            error: `无法理解您的查询请求: "${input}"\n${llmResponse.explanation}`,
+            repairAttempts,
+            translationCache,
+          };
+        }
+        fofaQuery = llmResponse.fofa_query;
+        explanation = llmResponse.explanation;
+      }
+
+      // 未设置数量上限时按读取全部结果预估
+      const halted = await this.preflight(
+        fofaQuery,
+        explanation,
+        options.limit ?? Number.POSITIVE_INFINITY,
+        resultFields,
+        execution
+      );
+      if (halted) {
+        return {
+          ...halted,
+          repairAttempts,
+          translationCache,
+          fields: resultFields,
+        };
+      }
+
+      await onStart?.();
+      this.emit({ type: "streaming", query: fofaQuery });
+
+      const stream = this.fofaService.streamResults(fofaQuery, {
+        ...options,
+        fields: resultFields,
+        onBatch: (batch, summary) => {
+          this.emit({
+            type: "stream_batch",
+            count: batch.results.length,
+            summary,
+          });
+        },
+      });
+
+      let step = await stream.next();
+      while (!step.done) {
+        onResult(step.value);
+        step = await stream.next();
+      }
+
+      this.emit({ type: "streamed", summary: step.value });
+
+      return {
+        success: true,
+        query: fofaQuery,
+        explanation,
+        repairAttempts,
+        translationCache,
+        fields: resultFields,
+        stream: step.value,
+        fofaKeys: step.value.keysUsed,
+        requestStats: step.value.requestStats,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        ...this.describeFailure(error),
+        repairAttempts,
+        translationCache,
+      };
+    }
+  }
+
+  /**
+   * 保存监控查询：自然语言只在保存时翻译一次，之后每次运行都执行同一条FOFA查询语句，
+   * 避免LLM输出的差异被误报为资产变化
+   * @param store 监控查询存储
+   * @param name 名称
+   * @param input 自然语言输入或FOFA查询语句
+   * @param mode 输入类型：natural 为自然语言，direct 为FOFA查询语句
+   * @param fields 返回字段列表，会自动补充对比所需的 ip、port、host、title
+   * @param target 每次运行最多收集的结果数量，默认500
+   * @returns Promise<ProcessResult> 处理结果，保存的查询位于 savedQuery
+   */
+  async saveWatchQuery(
+    store: WatchStore,
+    name: string,
+    input: string,
+    mode: "natural" | "direct",
+    fields?: string[],
+    target: number = DEFAULT_WATCH_TARGET
+  ): Promise<ProcessResult> {
+    let repairAttempts: QueryRepairAttempt[] | undefined;
+    let translationCache: TranslationCacheStatus | undefined;
+
+    try {
+      WatchStore.validateName(name);
+      let fofaQuery = input;
+      let explanation = "直接FOFA查询";
+
+      if (mode === "natural") {
+        const llmResponse = await this.translate(input);
+        repairAttempts = llmResponse.attempts;
+        translationCache = llmResponse.cacheStatus;
+
+        if (!llmResponse.fofa_query) {
+          return {
+            success: false,
+            error: `无法理解您的查询请求: "${input}"\n${llmResponse.explanation}`,
+            repairAttempts,
+            translationCache,
+          };
+        }
+        fofaQuery = llmResponse.fofa_query;
+        explanation = llmResponse.explanation;
+      }
+
+      // 保存前校验查询语法和字段，避免之后每次运行都失败
+      const validation = this.fofaService.validateQuery(fofaQuery);
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: `${validation.error}\n${FofaQueryParser.formatErrorPointer(fofaQuery, validation.column ?? 1)}`,
+          repairAttempts,
+          translationCache,
+        };
+      }
+
+      const savedQuery: SavedQuery = {
+        name,
+        mode,
+        input,
+        query: fofaQuery,
+        explanation,
+        fields: Array.from(
+          new Set([
+            ...FofaFieldCatalog.normalizeResultFields(fields),
+            "ip",
+            "port",
+            "host",
+            "title",
+          ])
+        ),
+        target,
+        createdAt: new Date().toISOString(),
+      };
+      await store.save(savedQuery);
+
+      return {
+        success: true,
+        query: fofaQuery,
+        explanation,
+        repairAttempts,
+        translationCache,
+        savedQuery,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "未知错误";
+      return {
+        success: false,
+        ...this.describeFailure(error),
+        repairAttempts,
+        translationCache,
+      };
+    }
+  }
+
+  /**
+   * 运行监控查询：重新收集结果（不使用本地结果缓存），与上一次快照对比后保存新快照
+   * @param store 监控查询存储
+   * @param savedQuery 监控查询
+   * @returns Promise<ProcessResult> 处理结果，运行报告位于 watch
+   */
+  async runWatchQuery(
+    store: WatchStore,
+    savedQuery: SavedQuery
+  ): Promise<ProcessResult> {
+    try {
+      this.emit({
+        type: "watch_running",
+        name: savedQuery.name,
+        query: savedQuery.query,
+      });
 
-      // 显示错误信息
-      ResultPresenter.presentError(errorMessage);
+      const { results, summary } = await this.fofaService.collectResults(
+        savedQuery.query,
+        {
+          target: savedQuery.target,
+          fields: savedQuery.fields,
+          cacheMode: "bypass",
+        }
+      );
+      const previous = await store.loadSnapshot(savedQuery.name);
+      const currentAt = new Date().toISOString();
+
+      const watch: WatchReport = {
+        name: savedQuery.name,
+        query: savedQuery.query,
+        previousAt: previous?.takenAt,
+        currentAt,
+        baseline: !previous,
+        complete: summary.collected >= summary.total,
+        total: summary.total,
+        collected: results.length,
+        consumedFpoints: summary.consumedFpoints,
+        diff: ResultDiff.compare(previous?.results ?? results, results, {
+          key: "host",
+          fields: ["title"],
+        }),
+      };
+      await store.saveSnapshot({
+        name: savedQuery.name,
+        query: savedQuery.query,
+        takenAt: currentAt,
+        results,
+      });
 
+      this.emit({
+        type: "watch_collected",
+        name: savedQuery.name,
+        count: results.length,
+        consumedFpoints: summary.consumedFpoints,
+      });
+
+      return {
+        success: true,
+        data: results,
+        query: savedQuery.query,
+        explanation: savedQuery.explanation,
+        fields: savedQuery.fields,
+        consumedFpoints: summary.consumedFpoints,
+        fofaKeys: summary.keysUsed,
+        requestStats: summary.requestStats,
+        watch,
+      };
+    } catch (error) {
       return {
         success: false,
-        error: errorMessage,
+        query: savedQuery.query,
+        ...this.describeFailure(error),
       };
     }
   }
 
+  /**
+   * 执行前检查：dry-run 时只返回预览；配置了确认阈值且预计消耗超过阈值时，
+   * 询问调用方是否继续
+   * @param query FOFA查询语句
+   * @param explanation 查询说明
+   * @param expectedSize 计划获取的结果数量
+   * @param fields 返回字段列表
+   * @param execution 执行控制选项
+   * @param firstPageSize 实际执行时第一页的每页数量，流式读取时不设置
+   * @returns 需要中止执行时返回处理结果，可以继续执行时返回null
+   */
+  private async preflight(
+    query: string,
+    explanation: string,
+    expectedSize: number,
+    fields: string[],
+    execution: ExecutionOptions,
+    firstPageSize?: number
+  ): Promise<ProcessResult | null> {
+    if (
+      !execution.dryRun &&
+      this.fofaConfig.confirmFpointThreshold === undefined
+    ) {
+      return null;
+    }
+
+    this.emit({ type: "estimating", query });
+    const preview = await this.fofaService.previewQuery(
+      query,
+      expectedSize,
+      fields,
+      execution.cacheMode,
+      firstPageSize
+    );
+    this.emit({ type: "preview", preview, explanation });
+
+    if (execution.dryRun) {
+      return {
+        success: true,
+        data: [],
+        query,
+        explanation,
+        preview,
+        consumedFpoints: preview.estimate.probeConsumedFpoints,
+      };
+    }
+
+    if (
+      preview.requiresConfirmation &&
+      !(execution.confirm && (await execution.confirm(preview)))
+    ) {
+      return {
+        success: false,
+        error: `预计消耗 ${preview.estimate.estimatedFpoints} F点，超过确认阈值 ${preview.threshold}，已取消执行`,
+        query,
+        explanation,
+        preview,
+        consumedFpoints: preview.estimate.probeConsumedFpoints,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * 自动翻页时的每页数量，与 FofaService.collectResults 的默认值一致
+   * @param collect 自动翻页收集选项
+   */
+  private collectPageSize(collect: CollectOptions): number {
+    return collect.pageSize ?? Math.min(Math.max(1, collect.target), 100);
+  }
+
+  /**
+   * 获取查询结果：未设置收集选项时只查询第一页，否则自动翻页收集
+   * @param query FOFA查询语句
+   * @param resultSize 单页返回数量
+   * @param fields 返回字段列表
+   * @param collect 自动翻页收集选项
+   * @param cacheMode 本地结果缓存策略
+   * @returns 查询结果、实际消耗的F点、完成请求的密钥、重试和等待统计、是否全部来自缓存，
+   * 以及自动翻页时的收集摘要
+   */
+  private async fetchResults(
+    query: string,
+    resultSize: number,
+    fields: string[],
+    collect?: CollectOptions,
+    cacheMode?: CacheMode
+  ): Promise<{
+    results: FofaResult[];
+    collection?: FofaCollectionSummary;
+    consumedFpoints: number;
+    keysUsed: string[];
+    requestStats: RequestStats;
+    cacheHit: boolean;
+  }> {
+    if (!collect) {
+      const page = await this.fofaService.searchPage(
+        query,
+        resultSize,
+        1,
+        fields,
+        cacheMode
+      );
+      if (page.cached) {
+        this.emit({ type: "page_cached", cachedAt: page.cachedAt });
+      }
+      return {
+        results: page.results,
+        consumedFpoints: page.consumedFpoint,
+        keysUsed: page.servedBy ? [page.servedBy] : [],
+        requestStats: page.requestStats ?? { retries: 0, waitMs: 0 },
+        cacheHit: page.cached === true,
+      };
+    }
+
+    this.emit({ type: "collecting", target: collect.target });
+    const collection = await this.fofaService.collectResults(query, {
+      ...collect,
+      fields,
+      cacheMode,
+    });
+    const { summary } = collection;
+    if (summary.cachedPages > 0) {
+      this.emit({
+        type: "collection_cached",
+        cachedPages: summary.cachedPages,
+        pagesFetched: summary.pagesFetched,
+      });
+    }
+    return {
+      results: collection.results,
+      collection: summary,
+      consumedFpoints: summary.consumedFpoints,
+      keysUsed: summary.keysUsed,
+      requestStats: summary.requestStats,
+      cacheHit:
+        summary.cachedPages > 0 &&
+        summary.cachedPages === summary.pagesFetched,
+    };
+  }
+
+  /**
+   * 将自然语言转换为FOFA查询，未通过校验时请求LLM修正
+   * @param input 用户的自然语言输入
+   * @returns Promise<LLMTranslation> 翻译结果及修正记录
+   */
+  private async translate(input: string): Promise<LLMTranslation> {
+    this.emit({ type: "translating", input });
+    const translation = await this.llmService.convertWithRepair(
+      input,
+      (query) => this.fofaService.validateQuery(query)
+    );
+    this.emit({
+      type: "translated",
+      query: translation.fofa_query,
+      explanation: translation.explanation,
+      attempts: translation.attempts,
+      cacheStatus: translation.cacheStatus,
+    });
+    return translation;
+  }
+
+  /**
+   * 将异常转换为错误信息和错误类型，查询语法错误附带错误位置
+   * @param error 捕获的异常
+   */
+  private describeFailure(
+    error: unknown
+  ): Pick<ProcessResult, "error" | "errorKind"> {
+    if (error instanceof FofaQuerySyntaxError) {
+      return {
+        error: FofaQueryParser.describeError(error),
+        errorKind: "syntax",
+      };
+    }
+    if (error instanceof FofaApiError) {
+      return { error: error.message, errorKind: error.kind };
+    }
+    return { error: error instanceof Error ? error.message : "未知错误" };
+  }
+
+  private emit(event: ProgressEvent): void {
+    this.reporter?.report(event);
+  }
+
+  /**
+   * 检查配置：验证FOFA凭据、剩余配额以及LLM接口是否可用
+   * @param checkLlm 是否检查LLM接口，默认true
+   * @returns Promise<ProcessResult> 处理结果，检查报告位于 configuration
+   */
+  async checkConfiguration(checkLlm: boolean = true): Promise<ProcessResult> {
+    this.emit({ type: "checking" });
+
+    const report = await ConfigurationChecker.check(
+      this.fofaService,
+      checkLlm ? this.llmService : null
+    );
+
+    return {
+      success: report.ok,
+      error: report.ok
+        ? undefined
+        : [report.fofa.error, report.llm.error].filter(Boolean).join("\n"),
+      configuration: report,
+    };
+  }
+
+  /**
+   * 查询FOFA账户池中每个密钥的剩余F点和查询次数
+   * @returns Promise<ProcessResult> 处理结果，至少有一个密钥可用时成功，账户池状态位于 keyPool
+   */
+  async checkKeyPool(): Promise<ProcessResult> {
+    this.emit({ type: "checking_keys" });
+
+    const keyPool = await this.fofaService.refreshKeyPool();
+    const usable = keyPool.some((key) => key.state === "active");
+
+    return {
+      success: usable,
+      error: usable ? undefined : "FOFA账户池中没有可用的API密钥",
+      keyPool,
+    };
+  }
+
   /**
    * 验证配置是否正确
-   * @returns boolean 配置是否有效
+   * @returns Promise<boolean> FOFA凭据和LLM接口均可用时返回true
    */
-  validateConfiguration(): boolean {
-    // 这里可以添加配置验证逻辑
-    // 例如检查API密钥格式、网络连接等
-    return true;
+  async validateConfiguration(): Promise<boolean> {
+    const report = await ConfigurationChecker.check(
+      this.fofaService,
+      this.llmService
+    );
+    return report.ok;
   }
 }
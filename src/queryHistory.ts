@@ -0,0 +1,106 @@
+/**
+ * Query History - 查询历史
+ * 将每次自然语言查询和直接查询的输入、执行的FOFA语句、结果数量和F点消耗记录到本地，
+ * 用于搜索和重放以前的查询
+ */
+
+import { randomBytes } from "crypto";
+import * as os from "os";
+import * as path from "path";
+import { QueryHistoryRecord } from "./types.js";
+import { FileStore } from "./fileStore.js";
+
+/**
+ * 默认返回的历史记录数
+ */
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+export class QueryHistory {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * 默认历史目录：~/.nl2fofa/history
+   */
+  static defaultDirectory(): string {
+    return path.join(os.homedir(), ".nl2fofa", "history");
+  }
+
+  /**
+   * 记录一次查询，每条记录单独保存为一个文件，并发记录互不影响
+   * @param record 查询记录（不含ID和时间）
+   * @returns Promise<QueryHistoryRecord> 保存的记录
+   */
+  async record(
+    record: Omit<QueryHistoryRecord, "id" | "timestamp">
+  ): Promise<QueryHistoryRecord> {
+    const saved: QueryHistoryRecord = {
+      id: randomBytes(4).toString("hex"),
+      timestamp: new Date().toISOString(),
+      ...record,
+    };
+
+    await FileStore.writeJson(this.entryPath(saved.id), saved);
+    return saved;
+  }
+
+  /**
+   * 列出历史记录，按时间从新到旧排序
+   * @param search 搜索词，匹配输入、查询语句或说明（不区分大小写）
+   * @param limit 最多返回的记录数，默认20
+   */
+  async list(
+    search?: string,
+    limit: number = DEFAULT_HISTORY_LIMIT
+  ): Promise<QueryHistoryRecord[]> {
+    const term = search?.trim().toLowerCase();
+    const records: QueryHistoryRecord[] = [];
+
+    for (const id of await FileStore.listJson(this.directory)) {
+      const record = await FileStore.readJson<QueryHistoryRecord>(
+        this.entryPath(id)
+      );
+      if (!record) {
+        continue;
+      }
+      if (
+        term &&
+        ![record.input, record.query, record.explanation].some((text) =>
+          text?.toLowerCase().includes(term)
+        )
+      ) {
+        continue;
+      }
+      records.push(record);
+    }
+
+    return records
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, limit);
+  }
+
+  /**
+   * 按ID查找历史记录，支持唯一的ID前缀
+   * @param id 记录ID或ID前缀
+   * @returns Promise<QueryHistoryRecord | null> 历史记录，不存在时返回null
+   * @throws Error ID前缀匹配到多条记录时抛出
+   */
+  async get(id: string): Promise<QueryHistoryRecord | null> {
+    const matches = (await FileStore.listJson(this.directory)).filter(
+      (candidate) => candidate.startsWith(id)
+    );
+    if (matches.length > 1) {
+      throw new Error(`历史ID前缀 "${id}" 匹配到 ${matches.length} 条记录，请提供更长的ID`);
+    }
+    return matches.length === 1
+      ? FileStore.readJson<QueryHistoryRecord>(this.entryPath(matches[0]))
+      : null;
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
@@ -0,0 +1,467 @@
+/**
+ * FOFA Query Parser - FOFA查询语法解析器
+ * 负责将FOFA查询字符串切分为词法单元并解析为类型化的语法树（AST）
+ *
+ * 支持的语法（与 LLMService.buildPrompt 中描述的一致）：
+ *   expression := or
+ *   or         := and ( "||" and )*
+ *   and        := primary ( "&&" primary )*
+ *   primary    := "(" expression ")" | condition | keyword
+ *   condition  := field operator ( "\"value\"" | true | false )
+ *   keyword    := "\"value\""
+ *   operator   := "=" | "==" | "!=" | "*=" | "!*="
+ */
+
+import {
+  FofaToken,
+  FofaQueryNode,
+  FofaMatchOperator,
+  FofaQueryValidation,
+} from "./types.js";
+
+/**
+ * FOFA查询语法错误，携带出错位置（从1开始的列号）
+ */
+export class FofaQuerySyntaxError extends Error {
+  readonly column: number;
+  readonly query: string;
+
+  constructor(message: string, column: number, query: string) {
+    super(`FOFA查询语法错误（第${column}列）: ${message}`);
+    this.name = "FofaQuerySyntaxError";
+    this.column = column;
+    this.query = query;
+  }
+}
+
+export class FofaQueryParser {
+  // 按长度从长到短排列，保证 "!*=" 优先于 "!="、"==" 优先于 "="
+  private static readonly OPERATORS: FofaMatchOperator[] = [
+    "!*=",
+    "==",
+    "!=",
+    "*=",
+    "=",
+  ];
+
+  private readonly query: string;
+  private tokens: FofaToken[] = [];
+  private position = 0;
+
+  private constructor(query: string) {
+    this.query = query;
+  }
+
+  /**
+   * 将查询字符串解析为语法树
+   * @param query FOFA查询字符串
+   * @returns FofaQueryNode 语法树根节点
+   * @throws FofaQuerySyntaxError 语法不合法时抛出
+   */
+  static parse(query: string): FofaQueryNode {
+    const parser = new FofaQueryParser(query);
+    parser.tokens = FofaQueryParser.tokenize(query);
+    return parser.parseQuery();
+  }
+
+  /**
+   * 校验查询语法，不抛出异常
+   * @param query FOFA查询字符串
+   * @returns FofaQueryValidation 校验结果
+   */
+  static validate(query: string): FofaQueryValidation {
+    try {
+      return { valid: true, ast: FofaQueryParser.parse(query) };
+    } catch (error) {
+      if (error instanceof FofaQuerySyntaxError) {
+        return { valid: false, error: error.message, column: error.column };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 将查询规范化为统一的书写形式：去掉多余空白，逻辑操作符两侧各保留一个空格，
+   * 字符串统一用双引号并转义。写法不同但含义相同的查询得到相同的结果，可用作缓存键
+   * @param query FOFA查询字符串
+   * @returns 规范化后的查询
+   * @throws FofaQuerySyntaxError 词法错误时抛出
+   */
+  static normalize(query: string): string {
+    return FofaQueryParser.tokenize(query)
+      .map((token) => {
+        switch (token.type) {
+          case "string":
+            return `"${token.value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+          case "and":
+          case "or":
+            return ` ${token.value} `;
+          case "eof":
+            return "";
+          default:
+            return token.value;
+        }
+      })
+      .join("");
+  }
+
+  /**
+   * 生成带有位置指示符的错误说明，便于在终端或MCP输出中定位问题
+   * @param query 原始查询字符串
+   * @param column 出错列号
+   * @returns 两行文本：原查询和指向出错位置的 ^
+   */
+  static formatErrorPointer(query: string, column: number): string {
+    const offset = Math.max(0, Math.min(column - 1, query.length));
+    return `${query}\n${" ".repeat(offset)}^`;
+  }
+
+  /**
+   * 将语法错误格式化为包含错误说明和位置指示符的多行文本
+   * @param error 语法错误
+   * @returns 可直接展示给用户的错误文本
+   */
+  static describeError(error: FofaQuerySyntaxError): string {
+    return `${error.message}\n${FofaQueryParser.formatErrorPointer(
+      error.query,
+      error.column
+    )}`;
+  }
+
+  /**
+   * 将语法树渲染为便于阅读的树形文本
+   * @param node 语法树节点
+   * @returns 多行树形文本
+   */
+  static formatAst(node: FofaQueryNode): string {
+    return FofaQueryParser.formatAstLines(node, "", "").join("\n");
+  }
+
+  private static formatAstLines(
+    node: FofaQueryNode,
+    prefix: string,
+    childPrefix: string
+  ): string[] {
+    switch (node.type) {
+      case "condition": {
+        const value = node.quoted ? `"${node.value}"` : node.value;
+        return [`${prefix}${node.field} ${node.operator} ${value}`];
+      }
+      case "keyword":
+        return [`${prefix}全文 "${node.value}"`];
+      case "group":
+        return [
+          `${prefix}( )`,
+          ...FofaQueryParser.formatAstLines(
+            node.expression,
+            `${childPrefix}└─ `,
+            `${childPrefix}   `
+          ),
+        ];
+      case "logical":
+        return [
+          `${prefix}${node.operator === "&&" ? "AND (&&)" : "OR (||)"}`,
+          ...FofaQueryParser.formatAstLines(
+            node.left,
+            `${childPrefix}├─ `,
+            `${childPrefix}│  `
+          ),
+          ...FofaQueryParser.formatAstLines(
+            node.right,
+            `${childPrefix}└─ `,
+            `${childPrefix}   `
+          ),
+        ];
+    }
+  }
+
+  /**
+   * 词法分析：将查询字符串切分为词法单元
+   * @param query FOFA查询字符串
+   * @returns FofaToken[] 词法单元数组，以 eof 结尾
+   */
+  static tokenize(query: string): FofaToken[] {
+    const tokens: FofaToken[] = [];
+    let i = 0;
+
+    while (i < query.length) {
+      const char = query[i];
+      const column = i + 1;
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (char === "(" || char === ")") {
+        tokens.push({
+          type: char === "(" ? "lparen" : "rparen",
+          value: char,
+          column,
+        });
+        i++;
+        continue;
+      }
+
+      if (query.startsWith("&&", i) || query.startsWith("||", i)) {
+        tokens.push({
+          type: char === "&" ? "and" : "or",
+          value: query.substring(i, i + 2),
+          column,
+        });
+        i += 2;
+        continue;
+      }
+
+      const operator = FofaQueryParser.OPERATORS.find((op) =>
+        query.startsWith(op, i)
+      );
+      if (operator) {
+        tokens.push({ type: "operator", value: operator, column });
+        i += operator.length;
+        continue;
+      }
+
+      if (char === '"') {
+        let value = "";
+        let j = i + 1;
+        let closed = false;
+
+        while (j < query.length) {
+          const current = query[j];
+          if (current === "\\" && j + 1 < query.length) {
+            value += query[j + 1];
+            j += 2;
+            continue;
+          }
+          if (current === '"') {
+            closed = true;
+            break;
+          }
+          value += current;
+          j++;
+        }
+
+        if (!closed) {
+          throw new FofaQuerySyntaxError("引号未闭合", column, query);
+        }
+
+        tokens.push({ type: "string", value, column });
+        i = j + 1;
+        continue;
+      }
+
+      if (/[A-Za-z0-9_]/.test(char)) {
+        let j = i;
+        while (j < query.length && /[A-Za-z0-9_.\-]/.test(query[j])) {
+          j++;
+        }
+        const word = query.substring(i, j);
+        tokens.push({
+          type: word === "true" || word === "false" ? "boolean" : "field",
+          value: word,
+          column,
+        });
+        i = j;
+        continue;
+      }
+
+      if (char === "&" || char === "|") {
+        throw new FofaQuerySyntaxError(
+          `无效的逻辑操作符 "${char}"，请使用 "&&" 或 "||"`,
+          column,
+          query
+        );
+      }
+
+      if (char === ">" || char === "<") {
+        throw new FofaQuerySyntaxError(
+          `FOFA不支持比较操作符 "${char}"，请改用 = 或 == 枚举取值`,
+          column,
+          query
+        );
+      }
+
+      if (char === ":") {
+        throw new FofaQuerySyntaxError(
+          '不支持 "field:value" 写法，请使用 field="value"',
+          column,
+          query
+        );
+      }
+
+      throw new FofaQuerySyntaxError(`无法识别的字符 "${char}"`, column, query);
+    }
+
+    tokens.push({ type: "eof", value: "", column: query.length + 1 });
+    return tokens;
+  }
+
+  /**
+   * 解析完整查询，确保所有词法单元均被消费
+   */
+  private parseQuery(): FofaQueryNode {
+    if (this.peek().type === "eof") {
+      throw new FofaQuerySyntaxError("查询语句为空", 1, this.query);
+    }
+
+    const node = this.parseOr();
+    const rest = this.peek();
+
+    if (rest.type === "rparen") {
+      throw new FofaQuerySyntaxError("多余的右括号", rest.column, this.query);
+    }
+    if (rest.type !== "eof") {
+      throw new FofaQuerySyntaxError(
+        `条件之间缺少逻辑操作符 "&&" 或 "||"（遇到 "${rest.value}"）`,
+        rest.column,
+        this.query
+      );
+    }
+
+    return node;
+  }
+
+  private parseOr(): FofaQueryNode {
+    let left = this.parseAnd();
+
+    while (this.peek().type === "or") {
+      const token = this.next();
+      const right = this.parseAnd();
+      left = {
+        type: "logical",
+        operator: "||",
+        left,
+        right,
+        column: token.column,
+      };
+    }
+
+    return left;
+  }
+
+  private parseAnd(): FofaQueryNode {
+    let left = this.parsePrimary();
+
+    while (this.peek().type === "and") {
+      const token = this.next();
+      const right = this.parsePrimary();
+      left = {
+        type: "logical",
+        operator: "&&",
+        left,
+        right,
+        column: token.column,
+      };
+    }
+
+    return left;
+  }
+
+  private parsePrimary(): FofaQueryNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case "lparen": {
+        this.next();
+        if (this.peek().type === "rparen") {
+          throw new FofaQuerySyntaxError(
+            "括号内缺少查询条件",
+            this.peek().column,
+            this.query
+          );
+        }
+        const expression = this.parseOr();
+        const closing = this.peek();
+        if (closing.type === "eof") {
+          throw new FofaQuerySyntaxError(
+            "括号未闭合",
+            token.column,
+            this.query
+          );
+        }
+        if (closing.type !== "rparen") {
+          throw new FofaQuerySyntaxError(
+            `条件之间缺少逻辑操作符 "&&" 或 "||"（遇到 "${closing.value}"）`,
+            closing.column,
+            this.query
+          );
+        }
+        this.next();
+        return { type: "group", expression, column: token.column };
+      }
+      case "field":
+        return this.parseCondition();
+      case "string":
+        this.next();
+        return { type: "keyword", value: token.value, column: token.column };
+      case "eof":
+        throw new FofaQuerySyntaxError(
+          "查询语句意外结束，缺少查询条件",
+          token.column,
+          this.query
+        );
+      default:
+        throw new FofaQuerySyntaxError(
+          `此处应为查询条件，却遇到 "${token.value}"`,
+          token.column,
+          this.query
+        );
+    }
+  }
+
+  private parseCondition(): FofaQueryNode {
+    const field = this.next();
+    const operator = this.peek();
+
+    if (operator.type !== "operator") {
+      throw new FofaQuerySyntaxError(
+        `字段 "${field.value}" 后缺少匹配操作符（=、==、!=、*=、!*=）`,
+        operator.column,
+        this.query
+      );
+    }
+    this.next();
+
+    const value = this.peek();
+    if (value.type === "string" || value.type === "boolean") {
+      this.next();
+      return {
+        type: "condition",
+        field: field.value,
+        operator: operator.value as FofaMatchOperator,
+        value: value.value,
+        quoted: value.type === "string",
+        column: field.column,
+        operatorColumn: operator.column,
+        valueColumn: value.column,
+      };
+    }
+
+    if (value.type === "field") {
+      throw new FofaQuerySyntaxError(
+        `取值必须使用双引号包裹，例如 ${field.value}${operator.value}"${value.value}"`,
+        value.column,
+        this.query
+      );
+    }
+
+    throw new FofaQuerySyntaxError(
+      `操作符 "${operator.value}" 后缺少取值`,
+      value.column,
+      this.query
+    );
+  }
+
+  private peek(): FofaToken {
+    return this.tokens[this.position];
+  }
+
+  private next(): FofaToken {
+    const token = this.tokens[this.position];
+    if (token.type !== "eof") {
+      this.position++;
+    }
+    return token;
+  }
+}
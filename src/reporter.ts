@@ -0,0 +1,148 @@
+/**
+ * Reporter - 进度报告器
+ * 将编排器发出的进度事件转换为文字输出：CLI 输出到终端，
+ * MCP 服务器写入标准错误输出（标准输出留给协议消息）并转发为日志通知
+ */
+
+import { ProgressEvent, Reporter, RequestStats } from "./types.js";
+import { ResultPresenter } from "./resultPresenter.js";
+
+export class ConsoleReporter implements Reporter {
+  private output: "stdout" | "stderr";
+
+  /**
+   * @param output 输出目标，流式导出和监控报告的标准输出留给数据时使用 stderr
+   */
+  constructor(output: "stdout" | "stderr" = "stdout") {
+    this.output = output;
+  }
+
+  /**
+   * 将进度事件转换为文字行，不需要输出的事件返回空数组
+   * @param event 进度事件
+   * @returns 文字行
+   */
+  static describe(event: ProgressEvent): string[] {
+    switch (event.type) {
+      case "translating":
+        return ["🤖 正在分析您的查询请求..."];
+      case "translated":
+        return [
+          ...(event.cacheStatus === "hit" ? ["♻️ 命中翻译缓存，未调用LLM"] : []),
+          ...(event.attempts.length > 1
+            ? [`🛠️ 经过 ${event.attempts.length - 1} 次修正`]
+            : []),
+          ...(event.query
+            ? [
+                `✅ 查询语句生成成功: ${event.query}`,
+                `📝 查询说明: ${event.explanation}`,
+              ]
+            : []),
+        ];
+      case "estimating":
+        return ["🧮 正在预估F点消耗..."];
+      case "preview":
+        return [
+          `🧮 预计消耗F点: ${event.preview.estimate.estimatedFpoints}（匹配总数 ${event.preview.estimate.total}）`,
+        ];
+      case "searching":
+        return [`🔍 正在执行FOFA查询: ${event.query}`];
+      case "page_cached":
+        return [`♻️ 命中本地缓存（缓存于 ${event.cachedAt}），未消耗F点`];
+      case "collecting":
+        return [`📚 自动翻页收集中，目标 ${event.target} 条...`];
+      case "collection_cached":
+        return [
+          `♻️ ${event.cachedPages}/${event.pagesFetched} 页命中本地缓存`,
+        ];
+      case "fetched":
+        return [
+          `✅ 查询执行完成，找到 ${event.count} 条结果`,
+          `💰 本次消耗F点: ${event.consumedFpoints}`,
+          ...(event.keysUsed.length > 0
+            ? [`🔑 使用FOFA密钥: ${event.keysUsed.join(", ")}`]
+            : []),
+          ...ConsoleReporter.describeRequestStats(event.requestStats),
+        ];
+      case "streaming":
+        return [`🌊 正在通过游标流式读取: ${event.query}`];
+      case "stream_batch":
+        return [
+          `   第 ${event.summary.batchesFetched} 批: ${event.count} 条（FOFA报告总数 ${event.summary.total} 条，已消耗F点 ${event.summary.consumedFpoints}）`,
+        ];
+      case "streamed":
+        return [
+          `✅ 流式读取完成，共输出 ${event.summary.streamed} 条结果`,
+          ...(event.summary.keysUsed.length > 0
+            ? [`🔑 使用FOFA密钥: ${event.summary.keysUsed.join(", ")}`]
+            : []),
+          ...ConsoleReporter.describeRequestStats(event.summary.requestStats),
+        ];
+      case "aggregating":
+        return [`📊 正在统计 ${event.fields.join(", ")} 的分布...`];
+      case "host_lookup":
+        return [`🖥️  正在查询主机画像: ${event.ip}`];
+      case "checking":
+        return ["🩺 正在检查FOFA账户和LLM接口..."];
+      case "checking_keys":
+        return ["🔑 正在查询FOFA账户池中各密钥的配额..."];
+      case "watch_running":
+        return [`🔭 正在运行监控查询 ${event.name}: ${event.query}`];
+      case "watch_collected":
+        return [
+          `✅ 收集 ${event.count} 条结果，消耗F点 ${event.consumedFpoints}`,
+        ];
+    }
+  }
+
+  /**
+   * 请求有重试或明显等待时输出一行说明
+   * @param stats 重试和等待统计
+   */
+  private static describeRequestStats(stats: RequestStats): string[] {
+    const description = ResultPresenter.describeRequestStats(stats);
+    return description ? [`🔁 请求调度: ${description}`] : [];
+  }
+
+  report(event: ProgressEvent): void {
+    // 输出到终端时，修正记录和执行前预览以完整格式显示（确认提示依赖预览内容）
+    if (this.output === "stdout") {
+      if (event.type === "translated") {
+        if (event.cacheStatus === "hit") {
+          console.log("♻️ 命中翻译缓存，未调用LLM");
+        }
+        ResultPresenter.presentRepairAttempts(event.attempts);
+        if (event.query) {
+          console.log(`✅ 查询语句生成成功: ${event.query}`);
+          console.log(`📝 查询说明: ${event.explanation}`);
+        }
+        return;
+      }
+      if (event.type === "preview") {
+        ResultPresenter.presentQueryPreview(event.preview, event.explanation);
+        return;
+      }
+    }
+
+    const write = this.output === "stdout" ? console.log : console.error;
+    ConsoleReporter.describe(event).forEach((line) => write(line));
+  }
+}
+
+export class NotificationReporter implements Reporter {
+  private notify: (message: string) => void;
+
+  /**
+   * @param notify 转发进度文字的回调，如 MCP 的日志通知
+   */
+  constructor(notify: (message: string) => void) {
+    this.notify = notify;
+  }
+
+  report(event: ProgressEvent): void {
+    ConsoleReporter.describe(event).forEach((line) => {
+      console.error(line);
+      this.notify(line);
+    });
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Request Scheduler - 请求调度器
+ * 同一个服务的所有请求共用一个调度器：限制同时进行的请求数和每秒发出的请求数，
+ * 可重试的失败按指数退避加随机抖动重试，服务端给出 Retry-After 时按其等待
+ */
+
+import { RequestSchedulerOptions, RequestStats } from "./types.js";
+
+/**
+ * 可重试的失败（超时、服务端错误、限流）：retryable 为 true 的错误都会被重试，
+ * retryAfterMs 为服务端要求的等待时间
+ */
+export interface RetryableFailure {
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+}
+
+/**
+ * 通用的可重试错误
+ */
+export class RetryableError extends Error implements RetryableFailure {
+  readonly retryable = true;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = "RetryableError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: RequestSchedulerOptions = {
+  concurrency: 2,
+  requestsPerSecond: 2,
+  maxRetries: 3,
+};
+
+export class RequestScheduler {
+  private readonly BASE_DELAY_MS = 1000;
+  private readonly MAX_DELAY_MS = 30 * 1000;
+  // 服务端要求等待的时间超过该值时不再重试
+  private readonly MAX_RETRY_AFTER_MS = 60 * 1000;
+
+  private options: RequestSchedulerOptions;
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private nextStartAt = 0; // 下一个请求最早的发出时间（毫秒时间戳）
+
+  /**
+   * @param options 调度选项，未设置的项使用默认值
+   */
+  constructor(options: Partial<RequestSchedulerOptions> = {}) {
+    this.options = {
+      concurrency:
+        options.concurrency ?? DEFAULT_SCHEDULER_OPTIONS.concurrency,
+      requestsPerSecond:
+        options.requestsPerSecond ??
+        DEFAULT_SCHEDULER_OPTIONS.requestsPerSecond,
+      maxRetries: options.maxRetries ?? DEFAULT_SCHEDULER_OPTIONS.maxRetries,
+    };
+  }
+
+  /**
+   * 排队执行请求，可重试的失败按退避策略重试
+   * @param task 发出一次请求的函数，失败时抛出 retryable 为 true 的错误表示可以重试
+   * @param stats 累加本次调用的重试次数和等待时间，可在多次调用间共用
+   * @returns Promise<T> 请求结果
+   * @throws 不可重试的错误，或重试次数用完后的最后一个错误
+   */
+  async run<T>(
+    task: () => Promise<T>,
+    stats: RequestStats = { retries: 0, waitMs: 0 }
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const queuedAt = Date.now();
+      await this.acquire();
+      stats.waitMs += Date.now() - queuedAt;
+
+      let failure: unknown;
+      try {
+        return await task();
+      } catch (error) {
+        failure = error;
+      } finally {
+        this.release();
+      }
+
+      const delay = this.retryDelay(failure, attempt);
+      if (delay === null) {
+        throw failure;
+      }
+      stats.retries++;
+      stats.waitMs += delay;
+      await this.sleep(delay);
+    }
+  }
+
+  /**
+   * 计算重试前的等待时间：优先使用服务端的 Retry-After，否则指数退避加随机抖动
+   * @param error 本次失败的错误
+   * @param attempt 已失败的次数减1
+   * @returns 等待毫秒数，不应重试时返回null
+   */
+  private retryDelay(error: unknown, attempt: number): number | null {
+    if (!this.isRetryable(error) || attempt >= this.options.maxRetries) {
+      return null;
+    }
+
+    if (error.retryAfterMs !== undefined) {
+      if (error.retryAfterMs > this.MAX_RETRY_AFTER_MS) {
+        return null;
+      }
+      // 限流对所有请求生效，推迟之后排队的请求
+      this.nextStartAt = Math.max(
+        this.nextStartAt,
+        Date.now() + error.retryAfterMs
+      );
+      return error.retryAfterMs;
+    }
+
+    const ceiling = Math.min(
+      this.MAX_DELAY_MS,
+      this.BASE_DELAY_MS * 2 ** attempt
+    );
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  /**
+   * 等待空闲的并发名额，并按每秒请求数与上一个请求间隔发出
+   */
+  private async acquire(): Promise<void> {
+    while (this.active >= this.options.concurrency) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+    this.active++;
+
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextStartAt);
+    this.nextStartAt = startAt + 1000 / this.options.requestsPerSecond;
+    if (startAt > now) {
+      await this.sleep(startAt - now);
+    }
+  }
+
+  private isRetryable(error: unknown): error is RetryableFailure {
+    return (
+      typeof error === "object" &&
+      error !== null &&
+      (error as RetryableFailure).retryable === true
+    );
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiters.shift()?.();
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Result Cache - 本地结果缓存
+ * 以规范化的查询语句、返回字段、每页数量和页码为键，将FOFA查询结果缓存到本地磁盘，重复查询不再消耗F点
+ */
+
+import { createHash } from "crypto";
+import { stat } from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import {
+  FofaSearchPage,
+  ResultCacheConfig,
+  ResultCacheEntry,
+  ResultCacheEntrySummary,
+} from "./types.js";
+import { FofaQueryParser } from "./queryParser.js";
+import { FileStore } from "./fileStore.js";
+
+/**
+ * 默认缓存有效期（秒）
+ */
+export const DEFAULT_CACHE_TTL_SECONDS = 3600;
+
+export class ResultCache {
+  private config: ResultCacheConfig;
+
+  constructor(config: ResultCacheConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 默认缓存目录：~/.nl2fofa/cache/results
+   */
+  static defaultDirectory(): string {
+    return path.join(os.homedir(), ".nl2fofa", "cache", "results");
+  }
+
+  /**
+   * 计算缓存条目ID：规范化查询、字段、每页数量和页码的SHA-256摘要
+   * @returns 16位十六进制ID
+   */
+  static entryId(
+    query: string,
+    fields: string[],
+    size: number,
+    page: number
+  ): string {
+    const key = JSON.stringify([
+      FofaQueryParser.normalize(query),
+      fields,
+      size,
+      page,
+    ]);
+    return createHash("sha256").update(key).digest("hex").slice(0, 16);
+  }
+
+  /**
+   * 读取未过期的缓存条目
+   * @returns Promise<ResultCacheEntry | null> 缓存条目，未命中、已过期或文件损坏时返回null
+   */
+  async get(
+    query: string,
+    fields: string[],
+    size: number,
+    page: number
+  ): Promise<ResultCacheEntry | null> {
+    const entry = await this.readEntry(
+      ResultCache.entryId(query, fields, size, page)
+    );
+    if (!entry || this.isExpired(entry)) {
+      return null;
+    }
+    return entry;
+  }
+
+  /**
+   * 写入缓存条目，多个进程或并发调用同时写入同一条目时，读取方只会看到某一次完整写入的内容
+   */
+  async set(
+    query: string,
+    fields: string[],
+    size: number,
+    page: number,
+    value: FofaSearchPage
+  ): Promise<void> {
+    const id = ResultCache.entryId(query, fields, size, page);
+    const createdAt = new Date();
+    const entry: ResultCacheEntry = {
+      id,
+      query,
+      normalizedQuery: FofaQueryParser.normalize(query),
+      fields,
+      size,
+      page,
+      createdAt: createdAt.toISOString(),
+      expiresAt: new Date(
+        createdAt.getTime() + this.config.ttlSeconds * 1000
+      ).toISOString(),
+      value: { ...value, cached: undefined, cachedAt: undefined },
+    };
+
+    await FileStore.writeJson(this.entryPath(id), entry);
+  }
+
+  /**
+   * 列出全部缓存条目，按写入时间从新到旧排序
+   */
+  async list(): Promise<ResultCacheEntrySummary[]> {
+    const summaries: ResultCacheEntrySummary[] = [];
+
+    for (const id of await this.listIds()) {
+      const entry = await this.readEntry(id);
+      if (!entry) {
+        continue;
+      }
+      const { size: bytes } = await stat(this.entryPath(id)).catch(() => ({
+        size: 0,
+      }));
+      summaries.push({
+        id: entry.id,
+        query: entry.query,
+        fields: entry.fields,
+        size: entry.size,
+        page: entry.page,
+        createdAt: entry.createdAt,
+        expiresAt: entry.expiresAt,
+        expired: this.isExpired(entry),
+        resultCount: entry.value.results.length,
+        bytes,
+      });
+    }
+
+    return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * 按ID查看缓存条目，支持唯一的ID前缀
+   * @param id 条目ID或ID前缀
+   * @returns Promise<ResultCacheEntry | null> 缓存条目（包括已过期的），不存在时返回null
+   * @throws Error ID前缀匹配到多个条目时抛出
+   */
+  async inspect(id: string): Promise<ResultCacheEntry | null> {
+    const resolved = await this.resolveId(id);
+    return resolved ? this.readEntry(resolved) : null;
+  }
+
+  /**
+   * 删除缓存条目：指定ID时只删除该条目，否则删除全部（或全部已过期的）条目
+   * @param options.expiredOnly 只删除已过期的条目
+   * @param options.id 只删除指定ID的条目，支持唯一的ID前缀
+   * @returns Promise<number> 删除的条目数
+   * @throws Error ID前缀匹配到多个条目时抛出
+   */
+  async purge(
+    options: { expiredOnly?: boolean; id?: string } = {}
+  ): Promise<number> {
+    let ids: string[];
+    if (options.id) {
+      const resolved = await this.resolveId(options.id);
+      ids = resolved ? [resolved] : [];
+    } else {
+      ids = await this.listIds();
+    }
+
+    let removed = 0;
+    for (const id of ids) {
+      if (options.expiredOnly) {
+        const entry = await this.readEntry(id);
+        if (entry && !this.isExpired(entry)) {
+          continue;
+        }
+      }
+
+      if (await FileStore.remove(this.entryPath(id))) {
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * 将ID或ID前缀解析为唯一的条目ID
+   * @param id 条目ID或ID前缀
+   * @returns 条目ID，没有匹配的条目时返回null
+   * @throws Error ID前缀匹配到多个条目时抛出
+   */
+  private async resolveId(id: string): Promise<string | null> {
+    const matches = (await this.listIds()).filter((candidate) =>
+      candidate.startsWith(id)
+    );
+    if (matches.length > 1) {
+      throw new Error(`缓存ID前缀 "${id}" 匹配到 ${matches.length} 个条目，请提供更长的ID`);
+    }
+    return matches[0] ?? null;
+  }
+
+  private async listIds(): Promise<string[]> {
+    return FileStore.listJson(this.config.directory);
+  }
+
+  private async readEntry(id: string): Promise<ResultCacheEntry | null> {
+    // 不存在或内容损坏都视为未命中
+    return FileStore.readJson<ResultCacheEntry>(this.entryPath(id));
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.config.directory, `${id}.json`);
+  }
+
+  private isExpired(entry: ResultCacheEntry): boolean {
+    return Date.parse(entry.expiresAt) <= Date.now();
+  }
+}
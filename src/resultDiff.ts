@@ -0,0 +1,538 @@
+/**
+ * Result Diff - 资产变化对比
+ * 按资产标识（ip:port、host 或 ip）匹配两次查询结果，找出新增、消失和字段变化的资产，
+ * 并生成终端文本、JSON 或 Markdown 报告
+ */
+
+import {
+  AssetDiff,
+  DiffFormat,
+  DiffKey,
+  FieldChange,
+  FofaResult,
+  ResultSetComparison,
+  StatisticsShift,
+  WatchReport,
+} from "./types.js";
+import { ResultPresenter } from "./resultPresenter.js";
+
+/**
+ * 支持的对比报告格式
+ */
+export const DIFF_FORMATS: readonly DiffFormat[] = ["text", "json", "markdown"];
+
+/**
+ * 支持的资产匹配键
+ */
+export const DIFF_KEYS: readonly DiffKey[] = ["ip:port", "host", "ip"];
+
+/**
+ * 参与对比的结果集
+ */
+export interface ResultSet {
+  path: string;
+  results: FofaResult[];
+  fields: string[];
+  query?: string;
+  exportedAt?: string;
+}
+
+export class ResultDiff {
+  // 报告中最多列出的分布变化条目数
+  private static readonly MAX_SHIFTS = 10;
+
+  /**
+   * 计算资产标识
+   * @param result 查询结果
+   * @param key 匹配键，默认 host（没有 host 时使用 ip:port）
+   * @returns 资产标识，缺少匹配键所需字段时返回null
+   */
+  static assetKey(result: FofaResult, key: DiffKey = "host"): string | null {
+    const address =
+      result.ip && result.port ? `${result.ip}:${result.port}` : null;
+
+    switch (key) {
+      case "ip":
+        return result.ip || null;
+      case "ip:port":
+        return address;
+      case "host":
+        return result.host?.trim() || address;
+    }
+  }
+
+  /**
+   * 对比两次查询结果
+   * @param before 上次的结果
+   * @param after 本次的结果
+   * @param options.key 匹配键，默认 host
+   * @param options.fields 比较的字段，默认比较两边记录都包含的全部字段
+   * @returns AssetDiff 新增、消失和字段变化的资产
+   */
+  static compare(
+    before: FofaResult[],
+    after: FofaResult[],
+    options: { key?: DiffKey; fields?: string[] } = {}
+  ): AssetDiff {
+    const key = options.key ?? "host";
+    const previous = this.indexByKey(before, key);
+    const current = this.indexByKey(after, key);
+    const diff: AssetDiff = {
+      key,
+      added: [],
+      removed: [],
+      changed: [],
+      unchanged: 0,
+      skipped: previous.skipped + current.skipped,
+    };
+
+    current.records.forEach((result, assetKey) => {
+      const old = previous.records.get(assetKey);
+      if (!old) {
+        diff.added.push(result);
+        return;
+      }
+
+      const changes = this.compareFields(old, result, options.fields);
+      if (changes.length > 0) {
+        diff.changed.push({
+          key: assetKey,
+          before: old,
+          after: result,
+          changes,
+        });
+      } else {
+        diff.unchanged++;
+      }
+    });
+
+    previous.records.forEach((result, assetKey) => {
+      if (!current.records.has(assetKey)) {
+        diff.removed.push(result);
+      }
+    });
+
+    return diff;
+  }
+
+  /**
+   * 对比两个结果集：逐条匹配记录比较两边共有的字段，
+   * 并复用 ResultPresenter 的统计计算端口和IP段分布的变化
+   * @param before 旧结果集
+   * @param after 新结果集
+   * @param key 匹配键
+   * @returns ResultSetComparison 对比结果
+   */
+  static compareResultSets(
+    before: ResultSet,
+    after: ResultSet,
+    key: DiffKey
+  ): ResultSetComparison {
+    const fields = before.fields.filter((field) =>
+      after.fields.includes(field)
+    );
+    const previousStats = ResultPresenter.summarizeResults(
+      before.results,
+      fields,
+      Infinity
+    );
+    const currentStats = ResultPresenter.summarizeResults(
+      after.results,
+      fields,
+      Infinity
+    );
+
+    return {
+      before: this.summarizeSet(before),
+      after: this.summarizeSet(after),
+      fields,
+      diff: this.compare(before.results, after.results, { key, fields }),
+      ports: this.shifts(previousStats.ports, currentStats.ports),
+      ipSegments: this.shifts(
+        previousStats.ipSegments,
+        currentStats.ipSegments
+      ),
+    };
+  }
+
+  /**
+   * 判断对比结果是否有变化
+   * @param diff 对比结果
+   */
+  static hasChanges(diff: AssetDiff): boolean {
+    return (
+      diff.added.length > 0 ||
+      diff.removed.length > 0 ||
+      diff.changed.length > 0
+    );
+  }
+
+  /**
+   * 生成监控查询的对比报告
+   * @param reports 每个监控查询的运行报告
+   * @param format 报告格式
+   * @returns 报告内容
+   */
+  static render(reports: WatchReport[], format: DiffFormat): string {
+    switch (format) {
+      case "json":
+        return JSON.stringify(
+          {
+            generatedAt: new Date().toISOString(),
+            changed: reports.some((report) => this.hasChanges(report.diff)),
+            reports,
+          },
+          null,
+          2
+        );
+      case "markdown":
+        return reports
+          .map((report) => this.watchToMarkdown(report))
+          .join("\n\n");
+      case "text":
+        return reports.map((report) => this.watchToText(report)).join("\n\n");
+      default:
+        throw new Error(
+          `不支持的报告格式: ${format}，可选: ${DIFF_FORMATS.join("、")}`
+        );
+    }
+  }
+
+  /**
+   * 生成两个结果集的对比报告
+   * @param comparison 对比结果
+   * @param format 报告格式
+   * @returns 报告内容
+   */
+  static renderComparison(
+    comparison: ResultSetComparison,
+    format: DiffFormat
+  ): string {
+    switch (format) {
+      case "json":
+        return JSON.stringify(
+          {
+            generatedAt: new Date().toISOString(),
+            changed: this.hasChanges(comparison.diff),
+            ...comparison,
+          },
+          null,
+          2
+        );
+      case "markdown":
+        return this.comparisonToMarkdown(comparison);
+      case "text":
+        return this.comparisonToText(comparison);
+      default:
+        throw new Error(
+          `不支持的报告格式: ${format}，可选: ${DIFF_FORMATS.join("、")}`
+        );
+    }
+  }
+
+  private static summarizeSet(set: ResultSet): ResultSetComparison["before"] {
+    return {
+      path: set.path,
+      count: set.results.length,
+      query: set.query,
+      exportedAt: set.exportedAt,
+    };
+  }
+
+  private static indexByKey(
+    results: FofaResult[],
+    key: DiffKey
+  ): { records: Map<string, FofaResult>; skipped: number } {
+    const records = new Map<string, FofaResult>();
+    let skipped = 0;
+
+    results.forEach((result) => {
+      const assetKey = this.assetKey(result, key);
+      if (!assetKey) {
+        skipped++;
+      } else if (!records.has(assetKey)) {
+        records.set(assetKey, result);
+      }
+    });
+    return { records, skipped };
+  }
+
+  /**
+   * 比较两条记录的字段，只比较两边都包含的字段，忽略首尾空白
+   */
+  private static compareFields(
+    before: FofaResult,
+    after: FofaResult,
+    fields?: string[]
+  ): FieldChange[] {
+    const candidates =
+      fields ?? Object.keys(after).filter((field) => field in before);
+
+    return candidates
+      .filter(
+        (field) =>
+          before[field] !== undefined &&
+          after[field] !== undefined &&
+          before[field].trim() !== after[field].trim()
+      )
+      .map((field) => ({
+        field,
+        before: before[field].trim(),
+        after: after[field].trim(),
+      }));
+  }
+
+  /**
+   * 计算分布变化，按变化量绝对值降序排列，忽略没有变化的条目
+   */
+  private static shifts(
+    before: [string, number][],
+    after: [string, number][]
+  ): StatisticsShift[] {
+    const previous = new Map(before);
+    const current = new Map(after);
+    const values = new Set([...previous.keys(), ...current.keys()]);
+
+    return Array.from(values)
+      .map((value) => {
+        const beforeCount = previous.get(value) ?? 0;
+        const afterCount = current.get(value) ?? 0;
+        return {
+          value,
+          before: beforeCount,
+          after: afterCount,
+          delta: afterCount - beforeCount,
+        };
+      })
+      .filter((shift) => shift.delta !== 0)
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+      .slice(0, this.MAX_SHIFTS);
+  }
+
+  private static watchToText(report: WatchReport): string {
+    const lines = [
+      `🔭 监控查询: ${report.name}`,
+      `📝 查询语句: ${report.query}`,
+      `📊 本次收集 ${report.collected} 条（FOFA报告总数 ${report.total} 条），消耗F点 ${report.consumedFpoints}`,
+    ];
+
+    if (report.baseline) {
+      lines.push(`📌 首次运行，已保存 ${report.collected} 条结果作为基线`);
+      return lines.join("\n");
+    }
+
+    lines.push(
+      `🕒 对比: ${this.formatTime(report.previousAt)} → ${this.formatTime(report.currentAt)}`
+    );
+    if (!report.complete) {
+      lines.push("⚠️ 未取完全部结果，消失的资产可能只是本次未被收集");
+    }
+    return lines.concat(this.diffToText(report.diff)).join("\n");
+  }
+
+  private static comparisonToText(comparison: ResultSetComparison): string {
+    const { before, after } = comparison;
+    const describeSet = (set: ResultSetComparison["before"]) =>
+      `${set.path}（${set.count} 条${set.query ? `，${set.query}` : ""}）`;
+    const lines = [
+      `🔀 结果对比（匹配键: ${comparison.diff.key}）`,
+      `📄 旧: ${describeSet(before)}`,
+      `📄 新: ${describeSet(after)}`,
+      ...this.diffToText(comparison.diff),
+    ];
+
+    const shiftLines = (title: string, shifts: StatisticsShift[]) => {
+      if (shifts.length === 0) {
+        return;
+      }
+      lines.push(`${title}:`);
+      shifts.forEach((shift) => {
+        lines.push(
+          `   ${shift.value}: ${shift.before} → ${shift.after} (${this.formatDelta(shift.delta)})`
+        );
+      });
+    };
+    shiftLines("🔌 端口分布变化", comparison.ports);
+    shiftLines("🌐 IP段分布变化", comparison.ipSegments);
+
+    return lines.join("\n");
+  }
+
+  private static diffToText(diff: AssetDiff): string[] {
+    const lines: string[] = [];
+    if (diff.skipped > 0) {
+      lines.push(
+        `⚠️ ${diff.skipped} 条记录缺少匹配键 ${diff.key}，未参与对比`
+      );
+    }
+    if (!this.hasChanges(diff)) {
+      lines.push(`✅ 无变化（${diff.unchanged} 个资产）`);
+      return lines;
+    }
+
+    const describe = (result: FofaResult) =>
+      `${this.assetKey(result, diff.key)}  ${result.title ?? ""}`.trimEnd();
+    if (diff.added.length > 0) {
+      lines.push(`🆕 新增 ${diff.added.length} 个资产:`);
+      diff.added.forEach((result) => lines.push(`   + ${describe(result)}`));
+    }
+    if (diff.removed.length > 0) {
+      lines.push(`➖ 消失 ${diff.removed.length} 个资产:`);
+      diff.removed.forEach((result) => lines.push(`   - ${describe(result)}`));
+    }
+    if (diff.changed.length > 0) {
+      lines.push(`✏️ 变化 ${diff.changed.length} 个资产:`);
+      diff.changed.forEach((change) => {
+        lines.push(`   ~ ${change.key}`);
+        change.changes.forEach((fieldChange) => {
+          lines.push(
+            `       ${fieldChange.field}: "${fieldChange.before}" → "${fieldChange.after}"`
+          );
+        });
+      });
+    }
+    lines.push(`   未变化 ${diff.unchanged} 个资产`);
+    return lines;
+  }
+
+  private static watchToMarkdown(report: WatchReport): string {
+    const lines = [
+      `## 监控查询: ${report.name}`,
+      "",
+      `- 查询语句: \`${report.query}\``,
+      `- 本次收集: ${report.collected} 条（FOFA报告总数 ${report.total} 条），消耗F点 ${report.consumedFpoints}`,
+    ];
+
+    if (report.baseline) {
+      lines.push(`- 首次运行，已保存 ${report.collected} 条结果作为基线`);
+      return lines.join("\n");
+    }
+
+    lines.push(
+      `- 对比: ${this.formatTime(report.previousAt)} → ${this.formatTime(report.currentAt)}`
+    );
+    if (!report.complete) {
+      lines.push("- ⚠️ 未取完全部结果，消失的资产可能只是本次未被收集");
+    }
+    return lines.concat(this.diffToMarkdown(report.diff)).join("\n");
+  }
+
+  private static comparisonToMarkdown(
+    comparison: ResultSetComparison
+  ): string {
+    const { before, after } = comparison;
+    const describeSet = (set: ResultSetComparison["before"]) =>
+      `\`${set.path}\`（${set.count} 条）${set.query ? ` \`${set.query}\`` : ""}`;
+    const lines = [
+      "## 结果对比",
+      "",
+      `- 旧: ${describeSet(before)}`,
+      `- 新: ${describeSet(after)}`,
+      `- 匹配键: ${comparison.diff.key}`,
+      ...this.diffToMarkdown(comparison.diff),
+    ];
+
+    const shiftTable = (
+      title: string,
+      label: string,
+      shifts: StatisticsShift[]
+    ) => {
+      if (shifts.length === 0) {
+        return;
+      }
+      lines.push(
+        "",
+        `### ${title}`,
+        "",
+        `| ${label} | 旧 | 新 | 变化 |`,
+        "| --- | --- | --- | --- |"
+      );
+      shifts.forEach((shift) => {
+        lines.push(
+          `| ${shift.value} | ${shift.before} | ${shift.after} | ${this.formatDelta(shift.delta)} |`
+        );
+      });
+    };
+    shiftTable("端口分布变化", "端口", comparison.ports);
+    shiftTable("IP段分布变化", "IP段", comparison.ipSegments);
+
+    return lines.join("\n");
+  }
+
+  private static diffToMarkdown(diff: AssetDiff): string[] {
+    const lines = [
+      `- 新增 ${diff.added.length} / 消失 ${diff.removed.length} / 变化 ${diff.changed.length} / 未变化 ${diff.unchanged}`,
+    ];
+    if (diff.skipped > 0) {
+      lines.push(
+        `- ⚠️ ${diff.skipped} 条记录缺少匹配键 ${diff.key}，未参与对比`
+      );
+    }
+
+    const assetTable = (title: string, results: FofaResult[]) => {
+      if (results.length === 0) {
+        return;
+      }
+      lines.push(
+        "",
+        `### ${title}`,
+        "",
+        "| 资产 | IP | 端口 | 标题 |",
+        "| --- | --- | --- | --- |"
+      );
+      results.forEach((result) => {
+        lines.push(
+          this.markdownRow([
+            this.assetKey(result, diff.key) ?? "",
+            result.ip ?? "",
+            result.port ?? "",
+            result.title ?? "",
+          ])
+        );
+      });
+    };
+    assetTable("新增资产", diff.added);
+    assetTable("消失资产", diff.removed);
+
+    if (diff.changed.length > 0) {
+      lines.push(
+        "",
+        "### 变化资产",
+        "",
+        "| 资产 | 字段 | 原值 | 新值 |",
+        "| --- | --- | --- | --- |"
+      );
+      diff.changed.forEach((change) => {
+        change.changes.forEach((fieldChange) => {
+          lines.push(
+            this.markdownRow([
+              change.key,
+              fieldChange.field,
+              fieldChange.before,
+              fieldChange.after,
+            ])
+          );
+        });
+      });
+    }
+    return lines;
+  }
+
+  /**
+   * 生成 Markdown 表格行，转义单元格中的竖线和换行
+   */
+  private static markdownRow(cells: string[]): string {
+    const escaped = cells.map((cell) =>
+      cell.replace(/\|/g, "\\|").replace(/\r?\n/g, " ")
+    );
+    return `| ${escaped.join(" | ")} |`;
+  }
+
+  private static formatDelta(delta: number): string {
+    return delta > 0 ? `+${delta}` : `${delta}`;
+  }
+
+  private static formatTime(timestamp?: string): string {
+    return timestamp ? new Date(timestamp).toLocaleString("zh-CN") : "-";
+  }
+}
@@ -0,0 +1,535 @@
+/**
+ * Result Exporter - 结果导出器
+ * 负责将FOFA查询结果完整地写入 CSV、JSON、NDJSON、HTML 报告或扫描目标列表文件，供其他工具使用
+ */
+
+import { createWriteStream, WriteStream } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import * as path from "path";
+import {
+  ExportDocument,
+  ExportFormat,
+  FofaResult,
+} from "./types.js";
+import { FofaFieldCatalog } from "./fieldCatalog.js";
+import { ResultPresenter } from "./resultPresenter.js";
+import { TargetListBuilder, TARGET_LIST_FORMATS } from "./targetList.js";
+
+/**
+ * 支持的导出格式，包括供扫描器读取的目标列表格式
+ */
+export const EXPORT_FORMATS: readonly ExportFormat[] = [
+  "csv",
+  "json",
+  "ndjson",
+  "html",
+  ...TARGET_LIST_FORMATS,
+];
+
+/**
+ * 文件扩展名与导出格式的对应关系
+ */
+const EXTENSION_FORMATS: Record<string, ExportFormat> = {
+  ".csv": "csv",
+  ".json": "json",
+  ".ndjson": "ndjson",
+  ".jsonl": "ndjson",
+  ".html": "html",
+  ".htm": "html",
+};
+
+/**
+ * 逐条写入结果的导出器，用于流式导出
+ */
+export interface ResultStreamWriter {
+  write(result: FofaResult): void;
+  close(): Promise<void>;
+}
+
+/**
+ * 逐条格式化结果的编码器：write 返回可以立即输出的文本，finish 返回剩余的文本
+ */
+export interface ResultEncoder {
+  write(result: FofaResult): string;
+  finish(): string;
+}
+
+export class ResultExporter {
+  /**
+   * 确定导出格式：显式指定时校验格式名，否则按文件扩展名推断
+   * @param filePath 导出文件路径
+   * @param format 显式指定的格式
+   * @returns ExportFormat 导出格式
+   * @throws Error 格式不受支持或无法从扩展名推断时抛出
+   */
+  static resolveFormat(filePath: string, format?: string): ExportFormat {
+    if (format) {
+      const normalized = format.trim().toLowerCase();
+      if (!EXPORT_FORMATS.includes(normalized as ExportFormat)) {
+        throw new Error(
+          `不支持的导出格式 "${format}"，可选: ${EXPORT_FORMATS.join(", ")}`
+        );
+      }
+      return normalized as ExportFormat;
+    }
+
+    const inferred = EXTENSION_FORMATS[path.extname(filePath).toLowerCase()];
+    if (!inferred) {
+      throw new Error(
+        `无法从文件名 "${filePath}" 推断导出格式，请指定格式: ${EXPORT_FORMATS.join(", ")}`
+      );
+    }
+    return inferred;
+  }
+
+  /**
+   * 将查询结果导出到文件
+   * @param document 要导出的查询结果
+   * @param filePath 导出文件路径，所在目录不存在时自动创建
+   * @param format 导出格式，默认按文件扩展名推断
+   * @returns Promise<string> 导出文件的绝对路径
+   */
+  static async exportToFile(
+    document: ExportDocument,
+    filePath: string,
+    format?: string
+  ): Promise<string> {
+    const resolvedFormat = this.resolveFormat(filePath, format);
+    const absolutePath = path.resolve(filePath);
+
+    await mkdir(path.dirname(absolutePath), { recursive: true });
+    await writeFile(absolutePath, this.render(document, resolvedFormat), "utf8");
+    return absolutePath;
+  }
+
+  /**
+   * 读取导出的结果文件，支持 JSON（导出文件、监控快照或结果数组）、NDJSON 和 CSV
+   * @param filePath 文件路径，格式按扩展名推断
+   * @returns Promise<ExportDocument> 查询结果，字段取自文件中的字段列表或记录中出现的全部键
+   * @throws Error 格式不支持读取或内容无法解析时抛出
+   */
+  static async importFromFile(filePath: string): Promise<ExportDocument> {
+    const format = this.resolveFormat(filePath);
+    if (format !== "json" && format !== "ndjson" && format !== "csv") {
+      throw new Error(
+        `无法读取 ${format.toUpperCase()} 文件 "${filePath}"，只支持 json、ndjson、csv`
+      );
+    }
+
+    const content = await readFile(filePath, "utf8");
+    try {
+      if (format === "csv") {
+        const [header = [], ...rows] = this.parseCsv(content);
+        return {
+          results: rows.map((row) =>
+            Object.fromEntries(header.map((field, i) => [field, row[i] ?? ""]))
+          ),
+          fields: header,
+        };
+      }
+
+      if (format === "ndjson") {
+        const results = content
+          .split(/\r?\n/)
+          .filter((line) => line.trim())
+          .map((line) => this.toResult(JSON.parse(line)));
+        return { results, fields: this.collectFields(results) };
+      }
+
+      const parsed = JSON.parse(content);
+      const records: unknown[] = Array.isArray(parsed) ? parsed : parsed.results;
+      if (!Array.isArray(records)) {
+        throw new Error("未找到结果数组");
+      }
+      const results = records.map((record) => this.toResult(record));
+      return {
+        results,
+        fields: Array.isArray(parsed.fields)
+          ? parsed.fields
+          : this.collectFields(results),
+        query: parsed.query,
+        explanation: parsed.explanation,
+        exportedAt: parsed.exportedAt ?? parsed.takenAt,
+      };
+    } catch (error) {
+      throw new Error(
+        `无法解析文件 "${filePath}": ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * 将查询结果渲染为指定格式的文本
+   * @param document 要导出的查询结果
+   * @param format 导出格式
+   * @returns 文件内容
+   */
+  static render(document: ExportDocument, format: ExportFormat): string {
+    switch (format) {
+      case "csv":
+        return this.toCsv(document.results, document.fields);
+      case "json":
+        return this.toJson(document);
+      case "ndjson":
+        return document.results
+          .map((result) => this.toNdjsonLine(result, document.fields))
+          .join("");
+      case "html":
+        return this.toHtml(document);
+      default:
+        return TargetListBuilder.build(document.results, format)
+          .map((line) => line + "\n")
+          .join("");
+    }
+  }
+
+  /**
+   * 创建逐条格式化结果的编码器，支持 ndjson、csv 和目标列表格式，
+   * json 与 html 需要完整结果才能生成
+   * @param format 导出格式
+   * @param fields 返回字段列表
+   * @returns ResultEncoder 编码器，CSV 表头在第一次 write 时输出
+   * @throws Error 格式不支持逐条输出时抛出
+   */
+  static createEncoder(format: ExportFormat, fields: string[]): ResultEncoder {
+    if (format === "json" || format === "html") {
+      throw new Error(
+        `流式导出不支持 ${format} 格式，请使用 ndjson、csv 或目标列表格式`
+      );
+    }
+
+    if (TargetListBuilder.isTargetFormat(format)) {
+      const collector = TargetListBuilder.createCollector(format);
+      const toText = (lines: string[]) =>
+        lines.map((line) => line + "\n").join("");
+      return {
+        write: (result) => toText(collector.add(result)),
+        finish: () => toText(collector.finish()),
+      };
+    }
+
+    let header = format === "csv" ? this.toCsvRow(fields) : "";
+    return {
+      write: (result) => {
+        const line =
+          format === "csv"
+            ? this.toCsvRow(fields.map((field) => result[field] ?? ""))
+            : this.toNdjsonLine(result, fields);
+        const text = header + line;
+        header = "";
+        return text;
+      },
+      finish: () => header,
+    };
+  }
+
+  /**
+   * 创建流式导出器，结果逐条写入文件，适合无法一次放入内存的结果集
+   * @param filePath 导出文件路径
+   * @param fields 返回字段列表
+   * @param format 导出格式，默认按文件扩展名推断
+   * @returns Promise<ResultStreamWriter> 流式导出器；文件无法打开或写入时，
+   * 之后的 write 抛出错误，close 以该错误拒绝
+   */
+  static async createStreamWriter(
+    filePath: string,
+    fields: string[],
+    format?: string
+  ): Promise<ResultStreamWriter> {
+    const encoder = this.createEncoder(
+      this.resolveFormat(filePath, format),
+      fields
+    );
+
+    const absolutePath = path.resolve(filePath);
+    await mkdir(path.dirname(absolutePath), { recursive: true });
+    const stream: WriteStream = createWriteStream(absolutePath, "utf8");
+
+    // 打开或写入失败（如路径是目录、没有权限、磁盘已满）以异步事件报告，
+    // 创建时就监听并记录，避免成为未捕获的异常
+    let failure: Error | undefined;
+    stream.on("error", (error) => {
+      failure ??= new Error(
+        `无法写入导出文件 ${absolutePath}: ${error.message}`
+      );
+    });
+
+    return {
+      write: (result) => {
+        if (failure) {
+          throw failure;
+        }
+        stream.write(encoder.write(result));
+      },
+      close: () =>
+        new Promise<void>((resolve, reject) => {
+          if (failure) {
+            reject(failure);
+            return;
+          }
+          stream.once("error", () => reject(failure));
+          stream.end(encoder.finish(), () =>
+            failure ? reject(failure) : resolve()
+          );
+        }),
+    };
+  }
+
+  /**
+   * 将单条结果转换为一行NDJSON（以换行结尾）
+   * @param result 单条结果
+   * @param fields 要输出的字段，默认输出全部字段
+   */
+  static toNdjsonLine(result: FofaResult, fields?: string[]): string {
+    return JSON.stringify(fields ? this.pick(result, fields) : result) + "\n";
+  }
+
+  /**
+   * 转换为CSV：首行为字段名，含逗号、引号或换行的值用双引号包裹，引号加倍转义
+   */
+  private static toCsv(results: FofaResult[], fields: string[]): string {
+    return (
+      this.toCsvRow(fields) +
+      results
+        .map((result) =>
+          this.toCsvRow(fields.map((field) => result[field] ?? ""))
+        )
+        .join("")
+    );
+  }
+
+  /**
+   * 解析CSV：支持双引号包裹的值、加倍转义的引号以及值中的换行
+   * @returns 每行的值数组
+   */
+  private static parseCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = "";
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          value += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ",") {
+        row.push(value);
+        value = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && content[i + 1] === "\n") {
+          i++;
+        }
+        row.push(value);
+        rows.push(row);
+        row = [];
+        value = "";
+      } else {
+        value += char;
+      }
+    }
+
+    if (value || row.length > 0) {
+      row.push(value);
+      rows.push(row);
+    }
+    return rows.filter((cells) => cells.some((cell) => cell !== ""));
+  }
+
+  /**
+   * 将读取的记录转换为查询结果，非字符串的值转换为字符串
+   */
+  private static toResult(record: unknown): FofaResult {
+    if (!record || typeof record !== "object" || Array.isArray(record)) {
+      throw new Error("结果记录需要为JSON对象");
+    }
+    return Object.fromEntries(
+      Object.entries(record).map(([field, value]) => [
+        field,
+        typeof value === "string" ? value : JSON.stringify(value),
+      ])
+    );
+  }
+
+  /**
+   * 收集记录中出现的全部字段，保持首次出现的顺序
+   */
+  private static collectFields(results: FofaResult[]): string[] {
+    return Array.from(new Set(results.flatMap((result) => Object.keys(result))));
+  }
+
+  private static toCsvRow(values: string[]): string {
+    return values.map((value) => this.escapeCsv(value)).join(",") + "\r\n";
+  }
+
+  private static escapeCsv(value: string): string {
+    if (/[",\r\n]/.test(value)) {
+      return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+  }
+
+  /**
+   * 转换为带查询元数据的格式化JSON
+   */
+  private static toJson(document: ExportDocument): string {
+    const { results, fields, query, explanation, collection, consumedFpoints } =
+      document;
+
+    return (
+      JSON.stringify(
+        {
+          query,
+          explanation,
+          exportedAt: new Date().toISOString(),
+          count: results.length,
+          fields,
+          consumedFpoints,
+          collection,
+          results: results.map((result) => this.pick(result, fields)),
+        },
+        null,
+        2
+      ) + "\n"
+    );
+  }
+
+  /**
+   * 生成独立的HTML报告：包含查询信息、统计信息和可点击表头排序的结果表格，
+   * 不依赖任何外部资源
+   */
+  private static toHtml(document: ExportDocument): string {
+    const { results, fields, query, explanation, collection, consumedFpoints } =
+      document;
+    const { ports, ipSegments } = ResultPresenter.summarizeResults(
+      results,
+      fields,
+      10
+    );
+
+    const meta: [string, string][] = [];
+    if (query) meta.push(["FOFA查询语句", query]);
+    if (explanation) meta.push(["查询说明", explanation]);
+    meta.push(["结果数量", `${results.length} 条`]);
+    if (consumedFpoints !== undefined) {
+      meta.push(["消耗F点", String(consumedFpoints)]);
+    }
+    if (collection) {
+      meta.push([
+        "收集摘要",
+        `获取 ${collection.pagesFetched} 页，FOFA报告总数 ${collection.total} 条，去重 ${collection.duplicatesRemoved} 条，停止原因: ${ResultPresenter.describeStopReason(collection.stopReason)}${collection.truncated ? "（结果已截断）" : ""}`,
+      ]);
+    }
+    meta.push(["导出时间", new Date().toLocaleString("zh-CN")]);
+
+    const statsTable = (title: string, rows: [string, number][]) =>
+      rows.length === 0
+        ? ""
+        : `<div class="stats"><h3>${title}</h3><table>${rows
+            .map(
+              ([name, count]) =>
+                `<tr><td>${this.escapeHtml(name)}</td><td>${count}</td></tr>`
+            )
+            .join("")}</table></div>`;
+
+    const header = fields
+      .map(
+        (field, index) =>
+          `<th data-index="${index + 1}">${this.escapeHtml(FofaFieldCatalog.resultFieldLabel(field))}</th>`
+      )
+      .join("");
+    const body = results
+      .map(
+        (result, index) =>
+          `<tr><td>${index + 1}</td>${fields
+            .map((field) => `<td>${this.escapeHtml(result[field] ?? "")}</td>`)
+            .join("")}</tr>`
+      )
+      .join("\n");
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>NL2FOFA 查询报告</title>
+<style>
+body { font-family: -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; margin: 24px; color: #222; }
+h1 { font-size: 22px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 6px 16px; }
+dt { font-weight: bold; color: #555; }
+dd { margin: 0; word-break: break-all; }
+table { border-collapse: collapse; margin-top: 8px; }
+th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f3f3f3; cursor: pointer; user-select: none; }
+th.asc::after { content: " ▲"; }
+th.desc::after { content: " ▼"; }
+#results td { max-width: 480px; word-break: break-all; white-space: pre-wrap; }
+.stats { display: inline-block; margin-right: 32px; vertical-align: top; }
+</style>
+</head>
+<body>
+<h1>🔍 NL2FOFA 查询报告</h1>
+<dl>
+${meta.map(([name, value]) => `<dt>${name}</dt><dd>${this.escapeHtml(value)}</dd>`).join("\n")}
+</dl>
+<h2>📈 统计信息</h2>
+${statsTable("🔌 常见端口", ports)}${statsTable("🌐 IP段分布", ipSegments.map(([segment, count]) => [`${segment}.x.x`, count]))}
+<h2>📋 查询结果</h2>
+<table id="results">
+<thead><tr><th data-index="0">序号</th>${header}</tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>
+<script>
+document.querySelectorAll("#results th").forEach(function (th) {
+  th.addEventListener("click", function () {
+    var index = Number(th.dataset.index);
+    var ascending = !th.classList.contains("asc");
+    var tbody = document.querySelector("#results tbody");
+    var rows = Array.prototype.slice.call(tbody.rows);
+    rows.sort(function (a, b) {
+      var x = a.cells[index].textContent, y = b.cells[index].textContent;
+      var nx = Number(x), ny = Number(y);
+      var order = x !== "" && y !== "" && !isNaN(nx) && !isNaN(ny) ? nx - ny : x.localeCompare(y, "zh-CN");
+      return ascending ? order : -order;
+    });
+    rows.forEach(function (row) { tbody.appendChild(row); });
+    document.querySelectorAll("#results th").forEach(function (other) { other.classList.remove("asc", "desc"); });
+    th.classList.add(ascending ? "asc" : "desc");
+  });
+});
+</script>
+</body>
+</html>
+`;
+  }
+
+  private static escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;");
+  }
+
+  /**
+   * 只保留指定字段，保证导出的字段顺序与请求一致
+   */
+  private static pick(result: FofaResult, fields: string[]): FofaResult {
+    const picked: FofaResult = {};
+    fields.forEach((field) => {
+      picked[field] = result[field] ?? "";
+    });
+    return picked;
+  }
+}
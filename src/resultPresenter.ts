@@ -3,7 +3,28 @@
  * 负责将FOFA API返回的原始JSON数据美化成易于阅读的表格
  */
 
-import { FofaResult } from "./types.js";
+import {
+  FofaResult,
+  QueryRepairAttempt,
+  FofaCollectionSummary,
+  FofaCollectStopReason,
+  FofaStatsResult,
+  FofaStatsBucket,
+  FofaHostProfile,
+  ConfigurationReport,
+  FofaKeyStatus,
+  FofaKeyState,
+  QueryPreview,
+  ResultStatistics,
+  ResultCacheEntry,
+  ResultCacheEntrySummary,
+  QueryHistoryRecord,
+  SavedQuery,
+  RequestStats,
+  FofaErrorKind,
+} from "./types.js";
+import { FofaFieldCatalog } from "./fieldCatalog.js";
+import { FofaQueryParser } from "./queryParser.js";
 
 export class ResultPresenter {
   /**
@@ -11,11 +32,13 @@ export class ResultPresenter {
    * @param results FOFA查询结果数组
    * @param query 原始查询语句
    * @param explanation 查询说明
+   * @param fields 要显示的字段列，默认取结果中的全部字段
    */
   static presentResults(
     results: FofaResult[],
     query?: string,
-    explanation?: string
+    explanation?: string,
+    fields?: string[]
   ): void {
     console.log("\n" + "=".repeat(80));
     console.log("🔍 NL2FOFA 查询结果");
@@ -41,47 +64,310 @@ export class ResultPresenter {
       return;
     }
 
-    // 使用console.table显示结果
-    const tableData = results.map((result, index) => ({
-      序号: index + 1,
-      IP地址: result.ip,
-      端口: result.port,
-      标题: this.truncateString(result.title, 40),
-      主机: this.truncateString(result.host, 30),
-    }));
+    // 使用console.table显示结果，列与请求的返回字段一致
+    const columns = fields ?? Object.keys(results[0]);
+    const tableData = results.map((result, index) => {
+      const row: Record<string, string | number> = { 序号: index + 1 };
+      columns.forEach((field) => {
+        row[FofaFieldCatalog.resultFieldLabel(field)] = this.truncateString(
+          result[field],
+          this.columnWidth(field)
+        );
+      });
+      return row;
+    });
 
     console.table(tableData);
 
     // 显示统计信息
-    this.showStatistics(results);
+    this.showStatistics(results, columns);
+  }
+
+  /**
+   * 获取字段在表格中的最大显示宽度
+   * @param field 字段名
+   * @returns 最大字符数
+   */
+  private static columnWidth(field: string): number {
+    return field === "host" ? 30 : 40;
+  }
+
+  /**
+   * 将FOFA聚合统计结果格式化为排名表格
+   * @param stats 聚合统计结果
+   * @param explanation 查询说明
+   * @param topN 每个字段最多显示的桶数量，默认10
+   */
+  static presentStats(
+    stats: FofaStatsResult,
+    explanation?: string,
+    topN: number = 10
+  ): void {
+    console.log("\n" + "=".repeat(80));
+    console.log("📊 NL2FOFA 聚合统计");
+    console.log("=".repeat(80));
+    console.log(`📝 FOFA查询语句: ${stats.query}`);
+
+    if (explanation) {
+      console.log(`💡 查询说明: ${explanation}`);
+    }
+
+    console.log(`📦 匹配资产总数: ${stats.total}`);
+    Object.entries(stats.distinct).forEach(([field, count]) => {
+      console.log(`🔢 独立${FofaFieldCatalog.resultFieldLabel(field)}数: ${count}`);
+    });
+    if (stats.lastUpdateTime) {
+      console.log(`🕒 数据更新时间: ${stats.lastUpdateTime}`);
+    }
+    console.log(`🔑 FOFA密钥: ${stats.servedBy}`);
+    this.presentRequestStats(stats.requestStats);
+    console.log("=".repeat(80));
+
+    const entries = Object.entries(stats.aggregations);
+    if (entries.length === 0) {
+      console.log("❌ 未返回任何聚合结果");
+      return;
+    }
+
+    entries.forEach(([field, buckets]) => {
+      console.log(`\n🏆 ${FofaFieldCatalog.resultFieldLabel(field)} 排名:`);
+      if (buckets.length === 0) {
+        console.log("   (无数据)");
+        return;
+      }
+      console.table(this.rankBuckets(buckets, stats.total, topN));
+    });
+  }
+
+  /**
+   * 显示单个IP的主机画像
+   * @param profile 主机画像
+   */
+  static presentHostProfile(profile: FofaHostProfile): void {
+    console.log("\n" + "=".repeat(80));
+    console.log(`🖥️  主机画像: ${profile.ip}`);
+    console.log("=".repeat(80));
+
+    if (profile.host && profile.host !== profile.ip) {
+      console.log(`🏷️  主机: ${profile.host}`);
+    }
+    if (profile.countryName || profile.countryCode) {
+      console.log(
+        `🌍 国家: ${profile.countryName ?? ""}${
+          profile.countryCode ? ` (${profile.countryCode})` : ""
+        }`
+      );
+    }
+    if (profile.asn !== undefined || profile.org) {
+      console.log(`🏢 ASN/组织: ${profile.asn ?? "-"} / ${profile.org ?? "-"}`);
+    }
+    console.log(`🔌 开放端口: ${profile.ports.length} 个`);
+    console.log(`📡 协议: ${profile.protocols.join(", ") || "-"}`);
+    console.log(`📦 产品: ${profile.products.join(", ") || "-"}`);
+    if (profile.categories.length > 0) {
+      console.log(`🗂️  分类: ${profile.categories.join(", ")}`);
+    }
+    if (profile.updateTime) {
+      console.log(`🕒 更新时间: ${profile.updateTime}`);
+    }
+    console.log(`🔑 FOFA密钥: ${profile.servedBy}`);
+    this.presentRequestStats(profile.requestStats);
+    console.log("=".repeat(80));
+
+    if (profile.ports.length === 0) {
+      console.log("❌ FOFA中没有该IP的端口数据");
+      return;
+    }
+
+    console.table(
+      profile.ports.map((item) => ({
+        端口: item.port,
+        协议: item.protocol || "-",
+        产品: this.truncateString(item.products.join(", "), 40) || "-",
+        更新时间: item.updateTime ?? "-",
+      }))
+    );
+  }
+
+  /**
+   * 显示配置检查报告
+   * @param report 检查报告
+   */
+  static presentConfigurationReport(report: ConfigurationReport): void {
+    console.log("\n" + "=".repeat(80));
+    console.log("🩺 NL2FOFA 配置检查");
+    console.log("=".repeat(80));
+
+    const { fofa, llm } = report;
+    console.log(
+      fofa.ok
+        ? `✅ FOFA API: 可用 (${fofa.latencyMs}ms)`
+        : `❌ FOFA API: ${fofa.error}`
+    );
+    if (fofa.account) {
+      const account = fofa.account;
+      console.log(`   账户: ${account.username || "-"} <${account.email}>`);
+      console.log(`   密钥: ${account.servedBy}`);
+      console.log(`   会员等级: ${account.membership}`);
+      console.log(
+        `   剩余F点: ${account.fofaPoints}（免费F点 ${account.remainFreePoints}）`
+      );
+      console.log(`   剩余API查询次数: ${account.remainApiQuery ?? "未知"}`);
+      console.log(
+        `   剩余可获取数据: ${
+          account.remainApiData !== undefined
+            ? `${account.remainApiData} 条`
+            : "未知"
+        }`
+      );
+    }
+
+    if (llm.skipped) {
+      console.log("⏭️  LLM API: 已跳过");
+    } else {
+      console.log(
+        llm.ok ? `✅ LLM API: 可用 (${llm.latencyMs}ms)` : `❌ LLM API: ${llm.error}`
+      );
+    }
+
+    if (report.warnings.length > 0) {
+      console.log("\n⚠️ 提醒:");
+      report.warnings.forEach((warning) => console.log(`   - ${warning}`));
+    }
+
+    console.log("=".repeat(80));
+    console.log(report.ok ? "✅ 配置检查通过" : "❌ 配置检查未通过");
+  }
+
+  /**
+   * 显示FOFA账户池中每个密钥的状态和剩余配额
+   * @param keys 账户池状态，按配置顺序排列
+   */
+  static presentKeyPool(keys: FofaKeyStatus[]): void {
+    console.log("\n" + "=".repeat(80));
+    console.log(`🔑 FOFA账户池（${keys.length} 个密钥）`);
+    console.log("=".repeat(80));
+
+    console.table(
+      keys.map((key, index) => ({
+        顺序: index + 1,
+        邮箱: key.email,
+        密钥: key.maskedKey,
+        状态: this.describeKeyState(key.state),
+        会员等级: key.membership ?? "-",
+        剩余F点: key.remainingPoints ?? "-",
+        剩余查询次数: key.remainingQueries ?? "-",
+      }))
+    );
+
+    const failures = keys.filter((key) => key.lastError);
+    if (failures.length > 0) {
+      console.log("\n⚠️ 错误:");
+      failures.forEach((key) =>
+        console.log(`   - ${key.label}: ${key.lastError}`)
+      );
+    }
+
+    const usable = keys.filter((key) => key.state === "active").length;
+    console.log("=".repeat(80));
+    console.log(
+      usable > 0
+        ? `✅ ${usable} 个密钥可用，查询按顺序使用，配额不足或认证失败时自动切换`
+        : "❌ 没有可用的密钥"
+    );
+  }
+
+  /**
+   * 获取密钥状态的说明文字
+   * @param state 密钥状态
+   * @returns 中文说明
+   */
+  static describeKeyState(state: FofaKeyState): string {
+    switch (state) {
+      case "active":
+        return "可用";
+      case "exhausted":
+        return "配额不足";
+      case "invalid":
+        return "认证失败";
+    }
+  }
+
+  /**
+   * 将聚合桶转换为带排名和占比的表格行
+   * @param buckets 按数量降序排列的聚合桶
+   * @param total 资产总数，用于计算占比
+   * @param topN 最多保留的行数
+   * @returns 表格行数组
+   */
+  static rankBuckets(
+    buckets: FofaStatsBucket[],
+    total: number,
+    topN: number
+  ): Array<{ 排名: number; 名称: string; 数量: number; 占比: string }> {
+    return buckets.slice(0, topN).map((bucket, index) => ({
+      排名: index + 1,
+      名称: this.truncateString(bucket.name, 40) || "(空)",
+      数量: bucket.count,
+      占比: total > 0 ? `${((bucket.count / total) * 100).toFixed(1)}%` : "-",
+    }));
+  }
+
+  /**
+   * 计算查询结果的端口和IP段分布，只统计已请求的字段
+   * @param results FOFA查询结果数组
+   * @param fields 结果中包含的字段
+   * @param topN 每项最多保留的条目数，默认5
+   * @returns 按数量降序排列的统计信息
+   */
+  static summarizeResults(
+    results: FofaResult[],
+    fields: string[],
+    topN: number = 5
+  ): ResultStatistics {
+    const rank = (stats: Record<string, number>): [string, number][] =>
+      Object.entries(stats)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, topN);
+
+    return {
+      ports: fields.includes("port")
+        ? rank(this.getPortStatistics(results))
+        : [],
+      ipSegments: fields.includes("ip")
+        ? rank(this.getIPSegmentStatistics(results))
+        : [],
+    };
   }
 
   /**
    * 显示查询结果的统计信息
    * @param results FOFA查询结果数组
+   * @param fields 结果中包含的字段，只统计已请求的字段
    */
-  private static showStatistics(results: FofaResult[]): void {
+  private static showStatistics(results: FofaResult[], fields: string[]): void {
+    if (!fields.includes("port") && !fields.includes("ip")) {
+      return;
+    }
+
+    const { ports, ipSegments } = this.summarizeResults(results, fields);
     console.log("\n📈 统计信息:");
 
     // 端口统计
-    const portStats = this.getPortStatistics(results);
-    console.log("🔌 常见端口:");
-    Object.entries(portStats)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 5)
-      .forEach(([port, count]) => {
+    if (fields.includes("port")) {
+      console.log("🔌 常见端口:");
+      ports.forEach(([port, count]) => {
         console.log(`   ${port}: ${count} 个`);
       });
+    }
 
     // IP段统计
-    const ipSegmentStats = this.getIPSegmentStatistics(results);
-    console.log("\n🌐 IP段分布:");
-    Object.entries(ipSegmentStats)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 5)
-      .forEach(([segment, count]) => {
+    if (fields.includes("ip")) {
+      console.log("\n🌐 IP段分布:");
+      ipSegments.forEach(([segment, count]) => {
         console.log(`   ${segment}.x.x: ${count} 个`);
       });
+    }
   }
 
   /**
@@ -137,20 +423,313 @@ export class ResultPresenter {
     return str.substring(0, maxLength - 3) + "...";
   }
 
+  /**
+   * 显示LLM查询修正记录，仅在发生过修正时输出
+   * @param attempts 每次生成/修正的尝试记录
+   */
+  static presentRepairAttempts(attempts: QueryRepairAttempt[]): void {
+    if (attempts.length <= 1 && !attempts.some((attempt) => attempt.error)) {
+      return;
+    }
+
+    console.log("\n🛠️  查询修正记录:");
+    attempts.forEach((attempt) => {
+      const label = attempt.attempt === 0 ? "初次生成" : `第${attempt.attempt}次修正`;
+      console.log(`   [${label}] ${attempt.query ?? "(无查询)"}`);
+      console.log(
+        attempt.error ? `      ❌ ${attempt.error}` : "      ✅ 通过校验"
+      );
+    });
+  }
+
+  /**
+   * 显示自动翻页收集的摘要
+   * @param summary 收集摘要
+   */
+  static presentCollectionSummary(summary: FofaCollectionSummary): void {
+    console.log("\n📚 收集摘要:");
+    console.log(`   已获取页数: ${summary.pagesFetched}`);
+    console.log(`   收集结果: ${summary.collected} 条（FOFA报告总数 ${summary.total} 条）`);
+    console.log(`   去除重复: ${summary.duplicatesRemoved} 条`);
+    console.log(`   消耗F点: ${summary.consumedFpoints}`);
+    if (summary.cachedPages > 0) {
+      console.log(`   缓存命中: ${summary.cachedPages} 页`);
+    }
+    if (summary.keysUsed.length > 0) {
+      console.log(`   使用密钥: ${summary.keysUsed.join(", ")}`);
+    }
+    const requestStats = this.describeRequestStats(summary.requestStats);
+    if (requestStats) {
+      console.log(`   请求调度: ${requestStats}`);
+    }
+    console.log(`   停止原因: ${this.describeStopReason(summary.stopReason)}`);
+    if (summary.truncated) {
+      console.log("   ⚠️ 结果已截断，未能取满目标数量");
+    }
+  }
+
+  /**
+   * 概括请求的重试次数和等待时间，没有重试且等待不足1秒时返回null
+   * @param stats 重试和等待统计
+   * @returns 中文说明
+   */
+  static describeRequestStats(stats?: RequestStats): string | null {
+    if (!stats || (stats.retries === 0 && stats.waitMs < 1000)) {
+      return null;
+    }
+    const waited = `累计等待 ${(stats.waitMs / 1000).toFixed(1)} 秒`;
+    return stats.retries > 0 ? `重试 ${stats.retries} 次，${waited}` : waited;
+  }
+
+  /**
+   * 显示请求的重试次数和等待时间，没有需要提示的内容时不输出
+   * @param stats 重试和等待统计
+   */
+  private static presentRequestStats(stats?: RequestStats): void {
+    const description = this.describeRequestStats(stats);
+    if (description) {
+      console.log(`🔁 请求调度: ${description}`);
+    }
+  }
+
+  /**
+   * 获取收集停止原因的说明文字
+   * @param reason 停止原因
+   * @returns 中文说明
+   */
+  static describeStopReason(reason: FofaCollectStopReason): string {
+    switch (reason) {
+      case "target":
+        return "已达到目标数量";
+      case "total":
+        return "已取完全部结果";
+      case "exhausted":
+        return "没有更多数据";
+      case "budget":
+        return "继续翻页将超出F点上限";
+      case "max_pages":
+        return "已达到最大页数";
+    }
+  }
+
+  /**
+   * 显示执行前预览：查询结构、预计结果数量和F点消耗
+   * @param preview 查询预览
+   * @param explanation 查询说明
+   */
+  static presentQueryPreview(preview: QueryPreview, explanation?: string): void {
+    const { estimate } = preview;
+
+    console.log("\n" + "=".repeat(80));
+    console.log("🧮 执行前预览");
+    console.log("=".repeat(80));
+    console.log(`📝 查询语句: ${preview.query}`);
+    if (explanation) {
+      console.log(`💡 查询说明: ${explanation}`);
+    }
+    console.log("🌳 查询结构:");
+    FofaQueryParser.formatAst(preview.ast)
+      .split("\n")
+      .forEach((line) => console.log(`   ${line}`));
+    console.log(`📊 匹配总数: ${estimate.total}`);
+    console.log(`📦 预计返回: ${estimate.expectedResults} 条`);
+    console.log(
+      `💰 预计消耗F点: ${estimate.estimatedFpoints}（每条约 ${estimate.perResultFpoints} F点，预检已消耗 ${estimate.probeConsumedFpoints}）`
+    );
+    if (preview.threshold !== undefined) {
+      console.log(
+        `${preview.requiresConfirmation ? "⚠️" : "✅"} 确认阈值: ${preview.threshold} F点`
+      );
+    }
+    console.log("=".repeat(80));
+  }
+
+  /**
+   * 显示本地结果缓存条目列表
+   * @param entries 缓存条目摘要
+   * @param directory 缓存目录
+   */
+  static presentCacheEntries(
+    entries: ResultCacheEntrySummary[],
+    directory: string
+  ): void {
+    console.log(`\n🗄️ 本地结果缓存: ${directory}`);
+
+    if (entries.length === 0) {
+      console.log("   （暂无缓存条目）");
+      return;
+    }
+
+    console.table(
+      entries.map((entry) => ({
+        ID: entry.id,
+        查询语句: this.truncateString(entry.query, 40),
+        字段: this.truncateString(entry.fields.join(","), 30),
+        "页码/每页": `${entry.page}/${entry.size}`,
+        结果数: entry.resultCount,
+        缓存时间: new Date(entry.createdAt).toLocaleString("zh-CN"),
+        状态: entry.expired ? "已过期" : "有效",
+      }))
+    );
+
+    const expired = entries.filter((entry) => entry.expired).length;
+    const bytes = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    console.log(
+      `共 ${entries.length} 条（已过期 ${expired} 条），占用 ${(bytes / 1024).toFixed(1)} KB`
+    );
+  }
+
+  /**
+   * 显示单个缓存条目的元数据和缓存的查询结果
+   * @param entry 缓存条目
+   */
+  static presentCacheEntry(entry: ResultCacheEntry): void {
+    const expired = Date.parse(entry.expiresAt) <= Date.now();
+
+    console.log(`\n🗄️ 缓存条目 ${entry.id}`);
+    console.log(`   查询语句: ${entry.query}`);
+    console.log(`   规范化查询: ${entry.normalizedQuery}`);
+    console.log(`   返回字段: ${entry.fields.join(",")}`);
+    console.log(`   页码/每页: ${entry.page}/${entry.size}`);
+    console.log(`   FOFA报告总数: ${entry.value.total}`);
+    console.log(`   原始消耗F点: ${entry.value.consumedFpoint}`);
+    console.log(`   缓存时间: ${new Date(entry.createdAt).toLocaleString("zh-CN")}`);
+    console.log(
+      `   过期时间: ${new Date(entry.expiresAt).toLocaleString("zh-CN")}${expired ? "（已过期）" : ""}`
+    );
+
+    this.presentResults(
+      entry.value.results,
+      entry.query,
+      "本地缓存",
+      entry.fields
+    );
+  }
+
+  /**
+   * 以表格形式显示查询历史
+   * @param records 历史记录，按时间从新到旧排序
+   * @param search 搜索词
+   */
+  static presentHistory(records: QueryHistoryRecord[], search?: string): void {
+    console.log(`\n🕘 查询历史${search ? `（搜索: ${search}）` : ""}`);
+
+    if (records.length === 0) {
+      console.log("   （暂无历史记录）");
+      return;
+    }
+
+    console.table(
+      records.map((record) => ({
+        ID: record.id,
+        时间: new Date(record.timestamp).toLocaleString("zh-CN"),
+        模式: record.mode === "natural" ? "自然语言" : "直接查询",
+        输入: this.truncateString(record.input, 30),
+        查询语句: this.truncateString(record.query ?? "-", 40),
+        结果数: record.resultCount,
+        F点: record.consumedFpoints,
+        状态: record.success ? "成功" : "失败",
+      }))
+    );
+    console.log(`共 ${records.length} 条，使用 nl2fofa replay <ID> 重新执行`);
+  }
+
+  /**
+   * 以表格形式显示保存的监控查询
+   * @param queries 监控查询列表
+   */
+  static presentWatchQueries(queries: SavedQuery[]): void {
+    console.log("\n🔭 监控查询");
+
+    if (queries.length === 0) {
+      console.log("   （暂无监控查询，使用 nl2fofa watch add <名称> <查询内容> 添加）");
+      return;
+    }
+
+    console.table(
+      queries.map((query) => ({
+        名称: query.name,
+        查询语句: this.truncateString(query.query, 50),
+        收集数量: query.target,
+        字段: this.truncateString(query.fields.join(","), 30),
+        保存时间: new Date(query.createdAt).toLocaleString("zh-CN"),
+      }))
+    );
+  }
+
   /**
    * 显示错误信息
    * @param error 错误信息
+   * @param kind 错误类型，用于给出对应的解决方案
    */
-  static presentError(error: string): void {
+  static presentError(error: string, kind?: FofaErrorKind): void {
     console.log("\n" + "=".repeat(80));
     console.log("❌ 执行失败");
     console.log("=".repeat(80));
     console.log(`🚫 错误信息: ${error}`);
     console.log("\n💡 可能的解决方案:");
-    console.log("   1. 检查网络连接是否正常");
-    console.log("   2. 确认API密钥配置是否正确");
-    console.log("   3. 验证查询语法是否符合FOFA规范");
-    console.log("   4. 检查FOFA账户余额是否充足");
+    this.errorAdvice(kind).forEach((advice, index) => {
+      console.log(`   ${index + 1}. ${advice}`);
+    });
     console.log("=".repeat(80));
   }
+
+  /**
+   * 根据错误类型给出解决方案，类型未知时给出通用的检查项
+   * @param kind 错误类型
+   * @returns 解决方案列表
+   */
+  static errorAdvice(kind?: FofaErrorKind): string[] {
+    switch (kind) {
+      case "auth":
+        return [
+          "确认 FOFA_EMAIL 和 FOFA_KEY 与FOFA个人中心中的一致",
+          "API key 重置后需要同步更新配置",
+          "运行 doctor 或 keys 命令检查各个密钥的状态",
+        ];
+      case "quota":
+        return [
+          "运行 keys 命令查看各个密钥剩余的F点和查询次数",
+          "在 FOFA_KEYS 中配置更多账户，配额不足时会自动切换",
+          "减少获取的结果数量，或用 --dry-run 预估消耗后再执行",
+          "等待查询配额恢复或为账户充值",
+        ];
+      case "permission":
+        return [
+          "当前会员等级无权使用查询或返回字段中的部分字段",
+          "去掉需要更高会员等级的返回字段，或改用默认字段",
+          "运行 keys 命令确认各个密钥的会员等级",
+        ];
+      case "syntax":
+        return [
+          "检查查询语句的引号、括号和逻辑运算符是否成对",
+          "确认使用的字段名是FOFA支持的查询字段",
+          "用 --dry-run 查看查询结构后再执行",
+        ];
+      case "rate_limit":
+        return [
+          "稍后重试，已自动重试的请求仍被限流",
+          "调低 FOFA_RATE_LIMIT 和 FOFA_CONCURRENCY",
+        ];
+      case "server":
+        return ["FOFA服务暂时不可用，请稍后重试"];
+      case "timeout":
+        return [
+          "检查网络连接是否稳定",
+          "调大 FOFA_TIMEOUT（--fofa-timeout）或减少单次获取的结果数量",
+        ];
+      case "network":
+        return [
+          "检查网络连接和DNS解析是否正常",
+          "确认代理或防火墙允许访问 fofa.info",
+        ];
+      default:
+        return [
+          "检查网络连接是否正常",
+          "确认API密钥配置是否正确",
+          "验证查询语法是否符合FOFA规范",
+          "检查FOFA账户余额是否充足",
+        ];
+    }
+  }
 }
@@ -0,0 +1,506 @@
+/**
+ * Settings - 配置加载
+ * CLI 和 MCP 服务器共用的配置加载器：合并环境变量、命令行参数和配置文件中的档案，
+ * 在启动时校验并生成 LLM 和 FOFA 服务的配置。
+ * 同一项设置的优先级：环境变量 > 命令行参数 > 配置文件中选中的档案 > 配置文件顶层
+ */
+
+import { readFileSync } from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  FofaConfig,
+  FofaCredential,
+  LLMConfig,
+  LLMProviderName,
+  Settings,
+} from "./types.js";
+import { LLM_PROVIDERS } from "./llmProviders.js";
+import { ResultCache, DEFAULT_CACHE_TTL_SECONDS } from "./resultCache.js";
+import { TranslationCache } from "./translationCache.js";
+
+/**
+ * 命令行参数定义，CLI 和 MCP 服务器都通过 parseArgs 接受这些参数
+ */
+export const SETTINGS_CLI_OPTIONS = {
+  config: { type: "string" },
+  profile: { type: "string" },
+  model: { type: "string" },
+  temperature: { type: "string" },
+  "max-tokens": { type: "string" },
+  "thinking-budget": { type: "string" },
+  "llm-timeout": { type: "string" },
+  "fofa-timeout": { type: "string" },
+} as const;
+
+export type SettingsCliValues = Partial<
+  Record<keyof typeof SETTINGS_CLI_OPTIONS, string>
+>;
+
+/**
+ * 配置校验失败，problems 中列出每一项问题
+ */
+export class SettingsError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`配置无效: ${problems.join("; ")}`);
+    this.name = "SettingsError";
+    this.problems = problems;
+  }
+}
+
+interface ValueRule {
+  parse: (raw: unknown) => unknown; // 取值不合法时返回undefined
+  description: string;
+}
+
+interface SettingSpec {
+  section: "llm" | "fofa" | "defaults";
+  key: string; // 配置文件中的键名，与配置对象的字段名相同
+  env?: string;
+  flag?: Exclude<keyof typeof SETTINGS_CLI_OPTIONS, "config" | "profile">;
+  rule: ValueRule;
+  // 同组的设置作为整体从设置了其中任一项的最高优先级来源读取，如属于同一账户的email和API key
+  group?: string;
+}
+
+// 配置文件中的一组设置，各节中未识别的键会被忽略
+interface SettingsSections {
+  llm?: Record<string, unknown>;
+  fofa?: Record<string, unknown>;
+  defaults?: Record<string, unknown>;
+}
+
+// 配置文件的结构：顶层设置对所有档案生效，档案中的设置覆盖顶层设置
+interface SettingsFile extends SettingsSections {
+  defaultProfile?: string;
+  profiles?: Record<string, SettingsSections>;
+}
+
+const TEXT: ValueRule = {
+  parse: (raw) => (typeof raw === "string" ? raw : undefined),
+  description: "字符串",
+};
+
+const PROVIDER: ValueRule = {
+  parse: (raw) =>
+    LLM_PROVIDERS.includes(raw as LLMProviderName) ? raw : undefined,
+  description: `以下之一: ${LLM_PROVIDERS.join(", ")}`,
+};
+
+// 字段名数组，也接受逗号分隔的字符串
+const FIELD_LIST: ValueRule = {
+  parse: (raw) => {
+    const fields = typeof raw === "string" ? raw.split(",") : raw;
+    if (
+      !Array.isArray(fields) ||
+      fields.length === 0 ||
+      !fields.every((field) => typeof field === "string" && field.trim())
+    ) {
+      return undefined;
+    }
+    return fields.map((field: string) => field.trim());
+  },
+  description: "非空的字段名数组",
+};
+
+// FOFA账户池：{ email, apiKey } 对象数组，也接受逗号分隔的 email:key 字符串
+const KEY_LIST: ValueRule = {
+  parse: (raw) => {
+    const items = typeof raw === "string" ? raw.split(",") : raw;
+    if (!Array.isArray(items) || items.length === 0) {
+      return undefined;
+    }
+
+    const credentials: FofaCredential[] = [];
+    for (const item of items) {
+      let email: unknown;
+      let apiKey: unknown;
+      if (typeof item === "string") {
+        const separator = item.indexOf(":");
+        email = item.slice(0, Math.max(separator, 0)).trim();
+        apiKey = item.slice(separator + 1).trim();
+      } else if (typeof item === "object" && item !== null) {
+        ({ email, apiKey } = item as Record<string, unknown>);
+      }
+      if (
+        typeof email !== "string" ||
+        typeof apiKey !== "string" ||
+        !email ||
+        !apiKey
+      ) {
+        return undefined;
+      }
+      credentials.push({ email, apiKey });
+    }
+    return credentials;
+  },
+  description: "非空的 { email, apiKey } 数组（环境变量中为逗号分隔的 email:key）",
+};
+
+/**
+ * 数值设置的取值规则，环境变量和命令行参数中的数值为字符串
+ */
+function numberRule(
+  test: (value: number) => boolean,
+  description: string
+): ValueRule {
+  return {
+    parse: (raw) => {
+      const value = typeof raw === "string" ? Number(raw) : raw;
+      return typeof value === "number" && test(value) ? value : undefined;
+    },
+    description,
+  };
+}
+
+const POSITIVE_INTEGER = numberRule(
+  (value) => Number.isInteger(value) && value > 0,
+  "正整数"
+);
+const NON_NEGATIVE_INTEGER = numberRule(
+  (value) => Number.isInteger(value) && value >= 0,
+  "非负整数"
+);
+const TIMEOUT = numberRule((value) => value > 0, "大于0的数字（秒）");
+
+const SETTING_SPECS: SettingSpec[] = [
+  { section: "llm", key: "provider", env: "LLM_PROVIDER", rule: PROVIDER },
+  { section: "llm", key: "apiKey", env: "LLM_API_KEY", rule: TEXT },
+  { section: "llm", key: "apiUrl", env: "LLM_API_URL", rule: TEXT },
+  { section: "llm", key: "model", env: "LLM_MODEL", flag: "model", rule: TEXT },
+  {
+    section: "llm",
+    key: "temperature",
+    env: "LLM_TEMPERATURE",
+    flag: "temperature",
+    rule: numberRule((value) => value >= 0 && value <= 2, "0到2之间的数字"),
+  },
+  {
+    section: "llm",
+    key: "maxTokens",
+    env: "LLM_MAX_TOKENS",
+    flag: "max-tokens",
+    rule: POSITIVE_INTEGER,
+  },
+  {
+    section: "llm",
+    key: "thinkingBudget",
+    env: "LLM_THINKING_BUDGET",
+    flag: "thinking-budget",
+    rule: numberRule(
+      (value) => Number.isInteger(value) && value >= 0,
+      "非负整数（0表示关闭思考）"
+    ),
+  },
+  {
+    section: "llm",
+    key: "timeoutSeconds",
+    env: "LLM_TIMEOUT",
+    flag: "llm-timeout",
+    rule: TIMEOUT,
+  },
+  {
+    section: "llm",
+    key: "maxRepairAttempts",
+    env: "LLM_MAX_REPAIR_ATTEMPTS",
+    rule: NON_NEGATIVE_INTEGER,
+  },
+  {
+    section: "fofa",
+    key: "email",
+    env: "FOFA_EMAIL",
+    rule: TEXT,
+    group: "FOFA账户",
+  },
+  {
+    section: "fofa",
+    key: "apiKey",
+    env: "FOFA_API_KEY",
+    rule: TEXT,
+    group: "FOFA账户",
+  },
+  { section: "fofa", key: "keys", env: "FOFA_KEYS", rule: KEY_LIST },
+  {
+    section: "fofa",
+    key: "timeoutSeconds",
+    env: "FOFA_TIMEOUT",
+    flag: "fofa-timeout",
+    rule: TIMEOUT,
+  },
+  {
+    section: "fofa",
+    key: "concurrency",
+    env: "FOFA_CONCURRENCY",
+    rule: POSITIVE_INTEGER,
+  },
+  {
+    section: "fofa",
+    key: "requestsPerSecond",
+    env: "FOFA_RATE_LIMIT",
+    rule: numberRule((value) => value > 0, "大于0的数字（每秒请求数）"),
+  },
+  {
+    section: "fofa",
+    key: "maxRetries",
+    env: "FOFA_MAX_RETRIES",
+    rule: NON_NEGATIVE_INTEGER,
+  },
+  {
+    section: "fofa",
+    key: "confirmFpointThreshold",
+    env: "FOFA_CONFIRM_FPOINTS",
+    rule: NON_NEGATIVE_INTEGER,
+  },
+  {
+    section: "defaults",
+    key: "size",
+    rule: numberRule(
+      (value) => Number.isInteger(value) && value >= 1 && value <= 10000,
+      "1到10000之间的整数"
+    ),
+  },
+  { section: "defaults", key: "fields", rule: FIELD_LIST },
+  {
+    section: "defaults",
+    key: "cacheTtlSeconds",
+    env: "FOFA_CACHE_TTL",
+    rule: numberRule((value) => value >= 0, "非负数（秒，0表示不缓存）"),
+  },
+];
+
+export class SettingsLoader {
+  /**
+   * 默认配置文件：~/.config/nl2fofa/config.json
+   */
+  static defaultConfigPath(): string {
+    return path.join(os.homedir(), ".config", "nl2fofa", "config.json");
+  }
+
+  /**
+   * 读取并校验设置。配置文件依次取 --config、NL2FOFA_CONFIG 和默认位置，
+   * 默认位置不存在时只使用环境变量和命令行参数；
+   * 档案依次取 profile 参数、NL2FOFA_PROFILE、--profile 和配置文件的 defaultProfile
+   * @param cliValues 命令行参数
+   * @param env 环境变量
+   * @param profile 指定的档案，如 MCP 工具调用时传入的档案，优先于其他方式选择的档案
+   * @returns Settings 未设置的项保持undefined，由各服务使用默认值
+   * @throws SettingsError 配置文件无法读取、档案不存在或任一设置取值不合法时抛出
+   */
+  static load(
+    cliValues: SettingsCliValues,
+    env: NodeJS.ProcessEnv = process.env,
+    profile?: string
+  ): Settings {
+    const problems: string[] = [];
+    const configPath = cliValues.config || env.NL2FOFA_CONFIG;
+    const file = this.readConfigFile(configPath, problems);
+
+    const profileName =
+      profile ||
+      env.NL2FOFA_PROFILE ||
+      cliValues.profile ||
+      (typeof file?.defaultProfile === "string" ? file.defaultProfile : "");
+    const profileSections = profileName
+      ? this.findProfile(file, profileName, configPath, problems)
+      : undefined;
+
+    const settings: Settings = {
+      profile: profileName || undefined,
+      llm: {},
+      fofa: {},
+      defaults: {},
+    };
+
+    // 按优先级排列的各来源及其取值
+    const candidatesOf = (spec: SettingSpec): [string, unknown][] => {
+      const fileKey = `${spec.section}.${spec.key}`;
+      return [
+        [spec.env ?? "", spec.env ? env[spec.env] : undefined],
+        [`--${spec.flag}`, spec.flag ? cliValues[spec.flag] : undefined],
+        [
+          `配置文件 profiles.${profileName}.${fileKey}`,
+          profileSections?.[spec.section]?.[spec.key],
+        ],
+        [`配置文件 ${fileKey}`, file?.[spec.section]?.[spec.key]],
+      ];
+    };
+    const isSet = ([, raw]: [string, unknown]) =>
+      raw !== undefined && raw !== "";
+
+    // 每组设置选用组内任一项设置过的最高优先级来源
+    const groupSources = new Map<string, number>();
+    for (const spec of SETTING_SPECS) {
+      const index = candidatesOf(spec).findIndex(isSet);
+      if (spec.group && index >= 0) {
+        groupSources.set(
+          spec.group,
+          Math.min(groupSources.get(spec.group) ?? index, index)
+        );
+      }
+    }
+
+    for (const spec of SETTING_SPECS) {
+      const candidates = candidatesOf(spec);
+      const groupSource = spec.group
+        ? groupSources.get(spec.group)
+        : undefined;
+      const found =
+        groupSource === undefined
+          ? candidates.find(isSet)
+          : candidates[groupSource];
+      if (!found) {
+        continue;
+      }
+      if (!isSet(found)) {
+        const setBy = SETTING_SPECS.filter(
+          (other) => other.group === spec.group && other !== spec
+        )
+          .map((other) => candidatesOf(other)[groupSource!])
+          .filter(isSet)
+          .map(([source]) => source);
+        problems.push(
+          `${found[0]} 未设置，但 ${setBy.join("、")} 已设置：${spec.group}的各项必须在同一处设置`
+        );
+        continue;
+      }
+
+      const [source, raw] = found;
+      const value = spec.rule.parse(raw);
+      if (value === undefined) {
+        problems.push(`${source} 必须是${spec.rule.description}`);
+        continue;
+      }
+      (settings[spec.section] as Record<string, unknown>)[spec.key] = value;
+    }
+
+    if (problems.length > 0) {
+      throw new SettingsError(problems);
+    }
+
+    // 本地缓存目录只通过环境变量设置
+    if (!["off", "false", "0"].includes((env.LLM_CACHE ?? "").toLowerCase())) {
+      settings.llm.translationCacheDir =
+        env.LLM_CACHE_DIR || TranslationCache.defaultDirectory();
+    }
+    const ttlSeconds =
+      settings.defaults.cacheTtlSeconds ?? DEFAULT_CACHE_TTL_SECONDS;
+    if (ttlSeconds > 0) {
+      settings.fofa.cache = {
+        directory: env.FOFA_CACHE_DIR || ResultCache.defaultDirectory(),
+        ttlSeconds,
+      };
+    }
+
+    return settings;
+  }
+
+  /**
+   * 检查必需的凭据并生成 LLM 和 FOFA 服务的配置。
+   * 只配置了账户池时，池中的第一组凭据作为主账户
+   * @param settings 已加载的设置
+   * @returns 服务配置
+   * @throws SettingsError 缺少必需的凭据时抛出
+   */
+  static serviceConfig(settings: Settings): {
+    llmConfig: LLMConfig;
+    fofaConfig: FofaConfig;
+  } {
+    const { keys = [], ...fofa } = settings.fofa;
+    const [email, apiKey, backupKeys] =
+      !fofa.email && !fofa.apiKey && keys.length > 0
+        ? [keys[0].email, keys[0].apiKey, keys.slice(1)]
+        : [fofa.email, fofa.apiKey, keys];
+    const missing = [
+      // 本地 Ollama 不需要API密钥
+      settings.llm.provider !== "ollama" && !settings.llm.apiKey
+        ? "LLM_API_KEY（或配置文件中的 llm.apiKey）"
+        : "",
+      email ? "" : "FOFA_EMAIL（或配置文件中的 fofa.email）",
+      apiKey ? "" : "FOFA_API_KEY（或配置文件中的 fofa.apiKey）",
+    ].filter(Boolean);
+
+    if (missing.length > 0) {
+      const scope = settings.profile ? `（档案 ${settings.profile}）` : "";
+      throw new SettingsError(
+        missing.map((item) => `缺少必要的配置${scope}: ${item}`)
+      );
+    }
+
+    return {
+      llmConfig: settings.llm,
+      fofaConfig: {
+        ...fofa,
+        email: email!,
+        apiKey: apiKey!,
+        keys: backupKeys.length > 0 ? backupKeys : undefined,
+      },
+    };
+  }
+
+  /**
+   * 读取配置文件，问题记录到 problems 中
+   * @param filePath 指定的配置文件，不指定时读取默认位置
+   * @param problems 校验问题列表
+   * @returns 配置文件内容，没有可用的配置文件时返回null
+   */
+  private static readConfigFile(
+    filePath: string | undefined,
+    problems: string[]
+  ): SettingsFile | null {
+    const target = filePath || this.defaultConfigPath();
+
+    let content: unknown;
+    try {
+      content = JSON.parse(readFileSync(target, "utf8"));
+    } catch (error) {
+      if (!filePath && (error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      const message = error instanceof Error ? error.message : "未知错误";
+      problems.push(`无法读取配置文件 ${target}: ${message}`);
+      return null;
+    }
+
+    if (!this.isObject(content)) {
+      problems.push(`配置文件 ${target} 必须是JSON对象`);
+      return null;
+    }
+    return content as SettingsFile;
+  }
+
+  /**
+   * 查找配置文件中的档案，问题记录到 problems 中
+   * @returns 档案中的设置，档案不存在时返回undefined
+   */
+  private static findProfile(
+    file: SettingsFile | null,
+    name: string,
+    configPath: string | undefined,
+    problems: string[]
+  ): SettingsSections | undefined {
+    if (!file) {
+      const target = configPath || this.defaultConfigPath();
+      problems.push(`未找到配置文件 ${target}，无法使用档案 ${name}`);
+      return undefined;
+    }
+
+    const profiles = this.isObject(file.profiles) ? file.profiles : {};
+    const profile = profiles[name];
+    if (!this.isObject(profile)) {
+      const available = Object.keys(profiles);
+      problems.push(
+        available.length > 0
+          ? `配置文件中没有档案 ${name}，可选: ${available.join(", ")}`
+          : `配置文件中没有档案 ${name}，请在 profiles 中定义`
+      );
+      return undefined;
+    }
+    return profile;
+  }
+
+  private static isObject(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
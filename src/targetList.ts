@@ -0,0 +1,202 @@
+/**
+ * Target List - 扫描目标列表
+ * 将FOFA查询结果转换为下游扫描器可直接读取的目标列表：ip:port、URL、按IP分组的nmap端口参数和去重的域名
+ */
+
+import { FofaResult, TargetListFormat } from "./types.js";
+import { FofaFieldCatalog } from "./fieldCatalog.js";
+
+/**
+ * 支持的目标列表格式
+ */
+export const TARGET_LIST_FORMATS: readonly TargetListFormat[] = [
+  "ip-port",
+  "url",
+  "nmap",
+  "domain",
+];
+
+/**
+ * 逐条接收结果的目标收集器：add 返回可以立即输出的新行，finish 返回剩余的行。
+ * 重复的目标只输出一次
+ */
+export interface TargetCollector {
+  add(result: FofaResult): string[];
+  finish(): string[];
+}
+
+export class TargetListBuilder {
+  // 生成各格式目标列表所需的返回字段
+  private static readonly REQUIRED_FIELDS: Record<TargetListFormat, string[]> = {
+    "ip-port": ["ip", "port"],
+    url: ["host", "protocol", "port"],
+    nmap: ["ip", "port"],
+    domain: ["domain", "host"],
+  };
+
+  /**
+   * 判断导出格式是否为目标列表格式
+   * @param format 导出格式
+   */
+  static isTargetFormat(format: string): format is TargetListFormat {
+    return TARGET_LIST_FORMATS.includes(format as TargetListFormat);
+  }
+
+  /**
+   * 获取生成目标列表所需的返回字段
+   * @param format 目标列表格式
+   * @returns 字段列表
+   */
+  static requiredFields(format: TargetListFormat): string[] {
+    return this.REQUIRED_FIELDS[format];
+  }
+
+  /**
+   * 导出格式为目标列表时，在返回字段中补充生成目标所需的字段
+   * @param fields 返回字段列表
+   * @param format 导出格式
+   * @returns 补充后的字段列表，非目标列表格式时原样返回
+   */
+  static withRequiredFields(fields: string[], format?: string): string[] {
+    if (!format || !this.isTargetFormat(format)) {
+      return fields;
+    }
+
+    const missing = this.REQUIRED_FIELDS[format].filter(
+      (field) => !fields.includes(field)
+    );
+    return fields.concat(missing);
+  }
+
+  /**
+   * 将查询结果转换为目标列表
+   * @param results FOFA查询结果数组
+   * @param format 目标列表格式
+   * @returns 每行一个目标
+   */
+  static build(results: FofaResult[], format: TargetListFormat): string[] {
+    const collector = this.createCollector(format);
+    const lines = results.flatMap((result) => collector.add(result));
+    return lines.concat(collector.finish());
+  }
+
+  /**
+   * 创建目标收集器，用于流式导出
+   * @param format 目标列表格式
+   * @returns TargetCollector 目标收集器
+   */
+  static createCollector(format: TargetListFormat): TargetCollector {
+    if (format === "nmap") {
+      return this.createNmapCollector();
+    }
+
+    const seen = new Set<string>();
+    const toTarget = (result: FofaResult): string | null => {
+      switch (format) {
+        case "ip-port":
+          return this.toAddress(result);
+        case "url":
+          return this.toUrl(result);
+        case "domain":
+          return this.toDomain(result);
+      }
+    };
+
+    return {
+      add: (result) => {
+        const target = toTarget(result);
+        if (!target || seen.has(target)) {
+          return [];
+        }
+        seen.add(target);
+        return [target];
+      },
+      finish: () => [],
+    };
+  }
+
+  /**
+   * nmap 需要按IP汇总端口，全部结果接收完后才输出，每行形如 nmap -p 22,80,443 1.2.3.4
+   */
+  private static createNmapCollector(): TargetCollector {
+    const portsByIp = new Map<string, Set<number>>();
+
+    return {
+      add: (result) => {
+        const port = Number(result.port);
+        if (!result.ip || !Number.isInteger(port) || port <= 0) {
+          return [];
+        }
+        if (!portsByIp.has(result.ip)) {
+          portsByIp.set(result.ip, new Set());
+        }
+        portsByIp.get(result.ip)!.add(port);
+        return [];
+      },
+      finish: () =>
+        Array.from(portsByIp.entries()).map(([ip, ports]) => {
+          const portList = Array.from(ports).sort((a, b) => a - b).join(",");
+          return `nmap ${ip.includes(":") ? "-6 " : ""}-p ${portList} ${ip}`;
+        }),
+    };
+  }
+
+  /**
+   * 生成 ip:port，IPv6 地址加方括号
+   */
+  private static toAddress(result: FofaResult): string | null {
+    if (!result.ip || !result.port) {
+      return null;
+    }
+    const ip = result.ip.includes(":") ? `[${result.ip}]` : result.ip;
+    return `${ip}:${result.port}`;
+  }
+
+  /**
+   * 由 host 和 protocol 生成URL：host 已带协议头时直接使用，
+   * 否则按 protocol（或443端口）补全 http/https，非Web协议的结果跳过
+   */
+  private static toUrl(result: FofaResult): string | null {
+    const host = result.host?.trim();
+    if (!host) {
+      return null;
+    }
+    if (/^https?:\/\//i.test(host)) {
+      return host;
+    }
+
+    const protocol = (result.protocol ?? "").toLowerCase();
+    if (protocol === "https" || (!protocol && result.port === "443")) {
+      return `https://${host}`;
+    }
+    if (protocol === "http" || !protocol) {
+      return `http://${host}`;
+    }
+    return null;
+  }
+
+  /**
+   * 优先使用 domain 字段，否则从 host 中去掉协议头、路径和端口，IP 地址不视为域名
+   */
+  private static toDomain(result: FofaResult): string | null {
+    let domain = result.domain?.trim();
+    if (!domain && result.host) {
+      const authority = result.host
+        .trim()
+        .replace(/^[a-z][a-z0-9+.-]*:\/\//i, "")
+        .split("/")[0];
+      domain = FofaFieldCatalog.isIpAddress(authority)
+        ? ""
+        : authority.replace(/:\d+$/, "");
+    }
+    if (!domain) {
+      return null;
+    }
+
+    const bare = domain.replace(/^\[|\]$/g, "");
+    if (FofaFieldCatalog.isIpAddress(bare)) {
+      return null;
+    }
+    return domain.toLowerCase();
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Translation Cache - 翻译缓存
+ * 缓存自然语言到FOFA查询的翻译结果，以规范化的用户输入、Prompt版本和模型为键，
+ * Prompt模板或模型变化后旧条目自动失效
+ */
+
+import { createHash } from "crypto";
+import * as os from "os";
+import * as path from "path";
+import { LLMResponse, TranslationCacheEntry } from "./types.js";
+import { FileStore } from "./fileStore.js";
+
+export class TranslationCache {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * 默认缓存目录：~/.nl2fofa/cache/translations
+   */
+  static defaultDirectory(): string {
+    return path.join(os.homedir(), ".nl2fofa", "cache", "translations");
+  }
+
+  /**
+   * 规范化用户输入：统一全角/半角字符、合并空白、忽略英文大小写
+   * @param input 用户的自然语言输入
+   */
+  static normalizeInput(input: string): string {
+    return input.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+  }
+
+  /**
+   * 读取翻译结果
+   * @param input 用户的自然语言输入
+   * @param promptVersion Prompt模板版本
+   * @param model 模型名称
+   * @returns Promise<LLMResponse | null> 缓存的翻译结果，未命中时返回null
+   */
+  async get(
+    input: string,
+    promptVersion: string,
+    model: string
+  ): Promise<LLMResponse | null> {
+    const entry = await FileStore.readJson<TranslationCacheEntry>(
+      this.entryPath(this.entryId(input, promptVersion, model))
+    );
+    return entry ? entry.response : null;
+  }
+
+  /**
+   * 写入翻译结果
+   * @param input 用户的自然语言输入
+   * @param promptVersion Prompt模板版本
+   * @param model 模型名称
+   * @param response 翻译结果
+   */
+  async set(
+    input: string,
+    promptVersion: string,
+    model: string,
+    response: LLMResponse
+  ): Promise<void> {
+    const id = this.entryId(input, promptVersion, model);
+    const entry: TranslationCacheEntry = {
+      id,
+      input: TranslationCache.normalizeInput(input),
+      promptVersion,
+      model,
+      createdAt: new Date().toISOString(),
+      response: {
+        fofa_query: response.fofa_query,
+        explanation: response.explanation,
+      },
+    };
+
+    await FileStore.writeJson(this.entryPath(id), entry);
+  }
+
+  /**
+   * 统计缓存条目数
+   */
+  async count(): Promise<number> {
+    return (await FileStore.listJson(this.directory)).length;
+  }
+
+  /**
+   * 删除全部翻译缓存
+   * @returns Promise<number> 删除的条目数
+   */
+  async purge(): Promise<number> {
+    let removed = 0;
+    for (const id of await FileStore.listJson(this.directory)) {
+      if (await FileStore.remove(this.entryPath(id))) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private entryId(input: string, promptVersion: string, model: string): string {
+    const key = JSON.stringify([
+      TranslationCache.normalizeInput(input),
+      promptVersion,
+      model,
+    ]);
+    return createHash("sha256").update(key).digest("hex").slice(0, 16);
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
@@ -8,31 +8,158 @@ export interface LLMResponse {
   explanation: string;
 }
 
+export type LLMProviderName = "openai" | "anthropic" | "gemini" | "ollama";
+
 export interface LLMConfig {
-  apiKey: string;
-  apiUrl: string;
+  provider?: LLMProviderName; // 接口协议，默认 openai（兼容 OpenAI Chat Completions 的服务）
+  apiKey?: string; // Ollama 等本地服务可不设置
+  apiUrl?: string; // 接口完整地址，不设置时使用服务商的默认地址
+  model?: string; // 模型名称，不设置时使用服务商的默认模型
+  temperature?: number; // 采样温度，默认0.1
+  maxTokens?: number; // 最大输出token数，默认500
+  thinkingBudget?: number; // 思考token预算，不设置时不发送（使用服务商默认行为），0表示关闭思考
+  timeoutSeconds?: number; // 请求超时时间（秒），默认300
+  maxRepairAttempts?: number; // 生成的查询未通过校验时，最多请求LLM修正的次数，默认2
+  translationCacheDir?: string; // 翻译缓存目录，不设置则不缓存
+}
+
+/**
+ * 配置档案中的查询默认值
+ */
+export interface QueryDefaults {
+  size?: number; // 单页查询返回的结果数量，默认50
+  fields?: string[]; // 返回字段，默认 ip,port,title,host
+  cacheTtlSeconds?: number; // 本地结果缓存有效期（秒），默认3600，0表示不缓存
+}
+
+/**
+ * 合并环境变量、命令行参数和配置文件后的设置，未设置的项保持undefined
+ */
+export interface Settings {
+  profile?: string; // 使用的配置档案，未使用档案时不设置
+  llm: LLMConfig;
+  fofa: Partial<FofaConfig>;
+  defaults: QueryDefaults;
+}
+
+export type TranslationCacheStatus = "hit" | "miss";
+
+export interface TranslationCacheEntry {
+  id: string;
+  input: string; // 规范化后的用户输入
+  promptVersion: string;
+  model: string;
+  createdAt: string; // ISO 8601
+  response: LLMResponse;
+}
+
+export interface QueryRepairAttempt {
+  attempt: number; // 0 表示初次生成，之后为第N次修正
+  query: string | null;
+  error?: string; // 校验错误信息，通过校验时为空
+}
+
+export interface LLMTranslation extends LLMResponse {
+  attempts: QueryRepairAttempt[];
+  cacheStatus?: TranslationCacheStatus; // 未启用翻译缓存时不设置
+}
+
+export interface LLMHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * LLM服务商：负责构建请求（地址、认证头、请求体）、从响应中提取文本以及转换错误信息
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  buildRequest(prompt: string): LLMHttpRequest;
+  extractContent(responseData: unknown): string;
+  mapError(error: unknown): Error;
 }
 
 // FOFA服务相关类型
+export interface FofaCredential {
+  email: string;
+  apiKey: string;
+}
+
 export interface FofaConfig {
   email: string;
   apiKey: string;
+  keys?: FofaCredential[]; // 备用账户，主账户配额不足或认证失败时按顺序切换
+  timeoutSeconds?: number; // API请求超时时间（秒），默认30
+  concurrency?: number; // 同时进行的请求数，默认2
+  requestsPerSecond?: number; // 每秒最多发出的请求数，默认2
+  maxRetries?: number; // 超时、服务端错误和限流时的最大重试次数，默认3
+  confirmFpointThreshold?: number; // 预计消耗F点超过该值时需要确认，不设置则不做执行前预检
+  cache?: ResultCacheConfig; // 本地结果缓存，不设置则不缓存
+}
+
+// 请求调度相关类型
+export interface RequestSchedulerOptions {
+  concurrency: number; // 同时进行的请求数，默认2
+  requestsPerSecond: number; // 每秒最多发出的请求数，默认2
+  maxRetries: number; // 超时、服务端错误和限流时的最大重试次数，默认3
 }
 
+export interface RequestStats {
+  retries: number; // 重试次数
+  waitMs: number; // 排队、限速和退避的累计等待时间（毫秒）
+}
+
+// 本地结果缓存相关类型
+export type CacheMode =
+  | "default" // 优先读取未过期的缓存，未命中时查询并写入缓存
+  | "refresh" // 忽略已有缓存，查询后写入缓存
+  | "bypass"; // 不读取也不写入缓存
+
+export interface ResultCacheConfig {
+  directory: string;
+  ttlSeconds: number;
+}
+
+export interface ResultCacheEntry {
+  id: string;
+  query: string;
+  normalizedQuery: string;
+  fields: string[];
+  size: number;
+  page: number;
+  createdAt: string; // ISO 8601
+  expiresAt: string; // ISO 8601
+  value: FofaSearchPage;
+}
+
+export interface ResultCacheEntrySummary {
+  id: string;
+  query: string;
+  fields: string[];
+  size: number;
+  page: number;
+  createdAt: string;
+  expiresAt: string;
+  expired: boolean;
+  resultCount: number;
+  bytes: number;
+}
+
+// 查询参数中不包含凭据，由账户池在请求时加入
 export interface FofaQueryParams {
-  email: string;
-  key: string;
   qbase64: string;
   fields: string;
   size?: number;
   page?: number;
 }
 
+/**
+ * 单条FOFA查询结果，键为请求的返回字段（如 ip、port、title、country 等）
+ */
 export interface FofaResult {
-  ip: string;
-  port: string;
-  title: string;
-  host: string;
+  [field: string]: string;
 }
 
 export interface FofaApiResponse {
@@ -43,7 +170,463 @@ export interface FofaApiResponse {
   page: number;
   mode: string;
   query: string;
-  results: string[][];
+  results: string[][] | string[]; // 只请求一个字段时FOFA返回一维数组
+}
+
+export interface FofaNextQueryParams {
+  qbase64: string;
+  fields: string;
+  size?: number;
+  next?: string; // 上一批返回的游标，首批不传
+}
+
+export interface FofaNextApiResponse extends FofaApiResponse {
+  next: string;
+}
+
+export interface FofaNextPage {
+  results: FofaResult[];
+  total: number;
+  next: string | null; // 下一批游标，没有更多数据时为null
+  consumedFpoint: number;
+  servedBy: string; // 完成请求的密钥（已脱敏）
+  requestStats: RequestStats;
+}
+
+export interface FofaStreamSummary {
+  batchesFetched: number;
+  consumedFpoints: number;
+  total: number;
+  streamed: number;
+  keysUsed: string[]; // 完成请求的密钥（已脱敏）
+  requestStats: RequestStats; // 各批请求的重试次数和等待时间之和
+}
+
+export interface FofaStreamOptions {
+  batchSize?: number; // 每批数量，默认1000
+  fields?: string[];
+  limit?: number; // 最多输出的结果数，不设置则读取全部
+  onBatch?: (batch: FofaNextPage, summary: FofaStreamSummary) => void; // 每批拉取完成后的回调，可用于显示进度
+}
+
+export interface FofaSearchPage {
+  results: FofaResult[];
+  total: number; // FOFA报告的匹配结果总数
+  page: number;
+  consumedFpoint: number;
+  requiredFpoints: number;
+  cached?: boolean; // 是否来自本地缓存（命中时 consumedFpoint 为0）
+  cachedAt?: string;
+  servedBy?: string; // 完成请求的密钥（已脱敏），来自本地缓存时为空
+  requestStats?: RequestStats; // 来自本地缓存时为空
+}
+
+export interface FofaCollectOptions {
+  target: number; // 目标收集数量
+  pageSize?: number; // 每页数量，默认100
+  fields?: string[];
+  maxFpoints?: number; // F点消耗上限，不设置则不限制
+  maxPages?: number; // 最多翻页数，不设置则不限制
+  cacheMode?: CacheMode;
+}
+
+export type FofaCollectStopReason =
+  | "target" // 已达到目标数量
+  | "total" // 已取完FOFA报告的全部结果
+  | "exhausted" // 某一页返回不足，没有更多数据
+  | "budget" // 继续翻页会超出F点上限
+  | "max_pages"; // 达到最大页数
+
+export interface FofaCollectionSummary {
+  pagesFetched: number;
+  consumedFpoints: number;
+  total: number;
+  collected: number;
+  duplicatesRemoved: number;
+  cachedPages: number; // 来自本地缓存的页数
+  truncated: boolean; // 是否因预算或页数限制未能取满
+  stopReason: FofaCollectStopReason;
+  keysUsed: string[]; // 完成请求的密钥（已脱敏），全部来自本地缓存时为空
+  requestStats: RequestStats; // 各页请求的重试次数和等待时间之和
+}
+
+export interface FofaCollection {
+  results: FofaResult[];
+  summary: FofaCollectionSummary;
+}
+
+export interface FofaStatsApiResponse {
+  error: boolean;
+  consumed_fpoint: number;
+  required_fpoints: number;
+  size: number;
+  distinct?: Record<string, number>;
+  aggs: Record<string, Array<{ name: string; count: number }>>;
+  lastupdatetime?: string;
+}
+
+export interface FofaStatsBucket {
+  name: string;
+  count: number;
+}
+
+export interface FofaStatsResult {
+  query: string;
+  total: number; // 匹配的资产总数
+  distinct: Record<string, number>; // 各字段的去重数量（如 ip）
+  aggregations: Record<string, FofaStatsBucket[]>; // 按聚合字段分组的桶，按数量降序
+  lastUpdateTime?: string;
+  consumedFpoint: number;
+  servedBy: string; // 完成请求的密钥（已脱敏）
+  requestStats: RequestStats;
+}
+
+export interface FofaHostApiResponse {
+  error: boolean;
+  host: string;
+  ip: string;
+  asn?: number;
+  org?: string;
+  country_name?: string;
+  country_code?: string;
+  protocol?: string[];
+  port?: number[];
+  category?: string[];
+  product?: string[];
+  update_time?: string;
+  // detail=true 时返回每个端口的明细
+  ports?: Array<{
+    port: number;
+    protocol: string;
+    base_protocol?: string;
+    update_time?: string;
+    products?: Array<{ product: string; category?: string }>;
+  }>;
+}
+
+export interface FofaHostPort {
+  port: number;
+  protocol: string;
+  products: string[];
+  updateTime?: string;
+}
+
+export interface FofaHostProfile {
+  ip: string;
+  host: string;
+  asn?: number;
+  org?: string;
+  countryName?: string;
+  countryCode?: string;
+  ports: FofaHostPort[]; // 按端口号升序
+  protocols: string[];
+  products: string[];
+  categories: string[];
+  updateTime?: string;
+  servedBy: string; // 完成请求的密钥（已脱敏）
+  requestStats: RequestStats;
+}
+
+export interface FofaAccountApiResponse {
+  error: boolean;
+  email: string;
+  username: string;
+  category?: string;
+  fcoin?: number;
+  fofa_point?: number;
+  remain_free_point?: number;
+  remain_api_query?: number;
+  remain_api_data?: number;
+  isvip: boolean;
+  vip_level: number;
+}
+
+export interface FofaAccountInfo {
+  email: string;
+  username: string;
+  isVip: boolean;
+  vipLevel: number;
+  membership: string; // 会员等级名称
+  fofaPoints: number; // 剩余F点
+  remainFreePoints: number; // 剩余免费F点
+  remainApiQuery?: number; // 剩余API查询次数，FOFA未返回时为undefined
+  remainApiData?: number; // 剩余可获取数据条数，FOFA未返回时为undefined
+  servedBy: string; // 完成请求的密钥（已脱敏）
+}
+
+// 配置检查相关类型
+export interface ServiceCheckResult {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+  skipped?: boolean; // 未执行该项检查
+}
+
+export interface ConfigurationReport {
+  ok: boolean;
+  fofa: ServiceCheckResult & { account?: FofaAccountInfo };
+  llm: ServiceCheckResult;
+  warnings: string[];
+}
+
+// FOFA接口错误类型
+export type FofaErrorKind =
+  | "auth" // email或API key无效
+  | "quota" // F点余额或查询次数不足
+  | "permission" // 会员等级无权使用该字段或功能
+  | "syntax" // 查询语法错误
+  | "rate_limit" // 请求过于频繁
+  | "server" // FOFA服务端错误
+  | "timeout" // 请求超时
+  | "network" // 无法连接到FOFA
+  | "unknown";
+
+// FOFA账户池相关类型
+export type FofaKeyState =
+  | "active" // 可用
+  | "exhausted" // 配额不足，冷却一段时间后重新尝试
+  | "invalid"; // 认证失败，只在其他密钥都不可用时重试
+
+export interface FofaKeyStatus {
+  email: string;
+  maskedKey: string; // 脱敏后的API密钥
+  label: string; // 用于报告的标识：邮箱和脱敏后的密钥
+  state: FofaKeyState;
+  requests: number; // 本次运行中由该密钥完成的请求数
+  consumedFpoints: number; // 本次运行中由该密钥消耗的F点
+  membership?: string; // 以下各项在查询过账户信息后才有
+  remainingPoints?: number; // 剩余F点（含免费F点），按之后的消耗递减
+  remainingQueries?: number; // 剩余API查询次数，按之后的请求递减
+  lastError?: string;
+}
+
+export interface FofaCostEstimate {
+  total: number; // FOFA报告的匹配结果总数
+  expectedResults: number; // 预计返回的结果数量
+  perResultFpoints: number; // 每条结果的F点消耗（由预检请求得出）
+  estimatedFpoints: number; // 预计消耗的F点
+  probeConsumedFpoints: number; // 预检请求本身消耗的F点
+}
+
+export interface QueryPreview {
+  query: string;
+  ast: FofaQueryNode;
+  estimate: FofaCostEstimate;
+  threshold?: number;
+  requiresConfirmation: boolean; // 预计消耗是否超过确认阈值
+}
+
+// FOFA查询语法解析相关类型
+export type FofaMatchOperator = "=" | "==" | "!=" | "*=" | "!*=";
+
+export type FofaLogicalOperator = "&&" | "||";
+
+export type FofaTokenType =
+  | "field"
+  | "operator"
+  | "string"
+  | "boolean"
+  | "and"
+  | "or"
+  | "lparen"
+  | "rparen"
+  | "eof";
+
+export interface FofaToken {
+  type: FofaTokenType;
+  value: string;
+  column: number; // 从1开始的列号
+}
+
+export interface FofaConditionNode {
+  type: "condition";
+  field: string;
+  operator: FofaMatchOperator;
+  value: string;
+  quoted: boolean; // 值是否带引号（布尔值允许不带引号）
+  column: number;
+  operatorColumn: number;
+  valueColumn: number;
+}
+
+export interface FofaKeywordNode {
+  type: "keyword";
+  value: string; // 不指定字段的全文检索，例如 "nginx"
+  column: number;
+}
+
+export interface FofaLogicalNode {
+  type: "logical";
+  operator: FofaLogicalOperator;
+  left: FofaQueryNode;
+  right: FofaQueryNode;
+  column: number;
+}
+
+export interface FofaGroupNode {
+  type: "group";
+  expression: FofaQueryNode;
+  column: number;
+}
+
+export type FofaQueryNode =
+  | FofaConditionNode
+  | FofaKeywordNode
+  | FofaLogicalNode
+  | FofaGroupNode;
+
+export type FofaFieldValueType =
+  | "ip" // IP地址或CIDR网段
+  | "port" // 单个端口号
+  | "port_list" // 逗号分隔的端口列表
+  | "integer"
+  | "date" // YYYY-MM-DD
+  | "boolean"
+  | "text";
+
+export interface FofaFieldDefinition {
+  name: string;
+  valueType: FofaFieldValueType;
+  operators: FofaMatchOperator[];
+  description: string;
+  values?: string[]; // 取值为固定枚举时的可选值
+}
+
+export interface FofaResultFieldDefinition {
+  name: string;
+  label: string; // 展示用的中文列名
+}
+
+export interface FofaQueryValidation {
+  valid: boolean;
+  ast?: FofaQueryNode;
+  error?: string;
+  column?: number;
+}
+
+// 结果导出相关类型
+export type TargetListFormat = "ip-port" | "url" | "nmap" | "domain";
+
+export type ExportFormat = "csv" | "json" | "ndjson" | "html" | TargetListFormat;
+
+export interface ExportDocument {
+  results: FofaResult[];
+  fields: string[];
+  query?: string;
+  explanation?: string;
+  collection?: FofaCollectionSummary;
+  consumedFpoints?: number;
+  exportedAt?: string; // 导出时间，读取已导出的JSON文件时设置
+}
+
+export interface ResultStatistics {
+  ports: [string, number][]; // 按数量降序排列的端口分布
+  ipSegments: [string, number][]; // 按数量降序排列的 A.B 段分布
+}
+
+// 查询历史相关类型
+export type QueryHistorySource = "cli" | "mcp";
+
+export interface QueryHistoryRecord {
+  id: string;
+  timestamp: string; // ISO 8601
+  source: QueryHistorySource;
+  mode: "natural" | "direct";
+  input: string; // 用户输入的自然语言或FOFA查询语句
+  query?: string; // 实际执行的FOFA查询语句，自然语言翻译失败时为空
+  explanation?: string;
+  fields?: string[];
+  size?: number; // 单页查询的结果数量
+  collect?: Pick<FofaCollectOptions, "target" | "pageSize" | "maxFpoints">; // 自动翻页收集选项
+  resultCount: number;
+  consumedFpoints: number;
+  success: boolean;
+  error?: string;
+}
+
+// 资产变化对比相关类型
+export type DiffFormat = "text" | "json" | "markdown";
+
+export type DiffKey =
+  | "ip:port" // 按 ip:port 匹配
+  | "host" // 按 host 匹配，没有 host 时使用 ip:port
+  | "ip"; // 按 IP 匹配，同一IP有多条记录时只比较第一条
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface AssetChange {
+  key: string; // 资产标识
+  before: FofaResult;
+  after: FofaResult;
+  changes: FieldChange[];
+}
+
+export interface AssetDiff {
+  key: DiffKey;
+  added: FofaResult[]; // 新出现的资产
+  removed: FofaResult[]; // 已消失的资产
+  changed: AssetChange[]; // 字段发生变化的资产
+  unchanged: number;
+  skipped: number; // 缺少匹配键而未参与对比的记录数
+}
+
+export interface StatisticsShift {
+  value: string; // 端口或IP段
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ResultSetSummary {
+  path: string;
+  count: number;
+  query?: string;
+  exportedAt?: string;
+}
+
+export interface ResultSetComparison {
+  before: ResultSetSummary;
+  after: ResultSetSummary;
+  fields: string[]; // 参与对比的字段
+  diff: AssetDiff;
+  ports: StatisticsShift[]; // 按变化量排序的端口分布变化
+  ipSegments: StatisticsShift[]; // 按变化量排序的 A.B 段分布变化
+}
+
+// 监控查询相关类型
+export interface SavedQuery {
+  name: string;
+  mode: "natural" | "direct";
+  input: string; // 保存时输入的自然语言或FOFA查询语句
+  query: string; // 保存时生成的FOFA查询语句，之后每次运行都执行该语句
+  explanation: string;
+  fields: string[];
+  target: number; // 每次运行最多收集的结果数量
+  createdAt: string; // ISO 8601
+}
+
+export interface WatchSnapshot {
+  name: string;
+  query: string;
+  takenAt: string; // ISO 8601
+  results: FofaResult[];
+}
+
+export interface WatchReport {
+  name: string;
+  query: string;
+  previousAt?: string; // 上次快照时间，首次运行时为空
+  currentAt: string;
+  baseline: boolean; // 首次运行，只保存基线快照，不报告变化
+  complete: boolean; // 是否取完了FOFA报告的全部结果，未取完时消失的资产可能只是未被收集
+  total: number; // FOFA报告的结果总数
+  collected: number;
+  consumedFpoints: number;
+  diff: AssetDiff;
 }
 
 // 编排器相关类型
@@ -53,24 +636,151 @@ export interface ProcessResult {
   error?: string;
   query?: string;
   explanation?: string;
+  repairAttempts?: QueryRepairAttempt[];
+  fields?: string[];
+  collection?: FofaCollectionSummary;
+  stream?: FofaStreamSummary;
+  stats?: FofaStatsResult;
+  host?: FofaHostProfile;
+  configuration?: ConfigurationReport;
+  preview?: QueryPreview; // dry-run 或需要确认时的执行前预览
+  consumedFpoints?: number; // 实际消耗的F点
+  fofaKeys?: string[]; // 完成FOFA请求的密钥（已脱敏）
+  requestStats?: RequestStats; // FOFA请求的重试次数和等待时间
+  errorKind?: FofaErrorKind; // 失败时的错误类型，用于给出对应的处理建议
+  keyPool?: FofaKeyStatus[]; // FOFA账户池状态
+  cacheHit?: boolean; // 结果是否全部来自本地缓存
+  translationCache?: TranslationCacheStatus; // 自然语言翻译是否命中缓存，未启用或直接查询时不设置
+  savedQuery?: SavedQuery; // 保存的监控查询
+  watch?: WatchReport; // 监控查询的运行报告
+}
+
+/**
+ * 编排器执行过程中发出的进度事件，最终结果通过 ProcessResult 返回
+ */
+export type ProgressEvent =
+  | { type: "translating"; input: string }
+  | {
+      type: "translated";
+      query: string | null; // 未能生成查询时为null
+      explanation: string;
+      attempts: QueryRepairAttempt[];
+      cacheStatus?: TranslationCacheStatus;
+    }
+  | { type: "estimating"; query: string }
+  | { type: "preview"; preview: QueryPreview; explanation: string }
+  | { type: "searching"; query: string }
+  | { type: "page_cached"; cachedAt?: string }
+  | { type: "collecting"; target: number }
+  | { type: "collection_cached"; cachedPages: number; pagesFetched: number }
+  | {
+      type: "fetched";
+      count: number;
+      consumedFpoints: number;
+      keysUsed: string[]; // 完成请求的密钥（已脱敏），全部来自缓存时为空
+      requestStats: RequestStats;
+    }
+  | { type: "streaming"; query: string }
+  | { type: "stream_batch"; count: number; summary: FofaStreamSummary }
+  | { type: "streamed"; summary: FofaStreamSummary }
+  | { type: "aggregating"; fields: string[] }
+  | { type: "host_lookup"; ip: string }
+  | { type: "checking" }
+  | { type: "checking_keys" }
+  | { type: "watch_running"; name: string; query: string }
+  | {
+      type: "watch_collected";
+      name: string;
+      count: number;
+      consumedFpoints: number;
+    };
+
+/**
+ * 进度报告器：CLI 输出到终端，MCP 服务器写入标准错误输出并发送日志通知
+ */
+export interface Reporter {
+  report(event: ProgressEvent): void;
 }
 
 // MCP工具相关类型
 export interface NaturalLanguageQueryArgs {
   query: string;
   size?: number;
+  fields?: string[];
+  dryRun?: boolean; // 只预览查询和F点消耗，不执行
+  confirm?: boolean; // 预计消耗超过阈值时需显式确认
+  outputPath?: string; // 将完整结果导出到该文件
+  outputFormat?: ExportFormat; // 导出格式，默认按文件扩展名推断
+  cache?: CacheMode; // 本地缓存策略，默认 default
+  profile?: string; // 使用的配置档案，默认为服务端选择的档案
 }
 
 export interface DirectFofaQueryArgs {
   fofaQuery: string;
   size?: number;
+  fields?: string[];
+  dryRun?: boolean; // 只预览查询和F点消耗，不执行
+  confirm?: boolean; // 预计消耗超过阈值时需显式确认
+  outputPath?: string; // 将完整结果导出到该文件
+  outputFormat?: ExportFormat; // 导出格式，默认按文件扩展名推断
+  cache?: CacheMode; // 本地缓存策略，默认 default
+  profile?: string; // 使用的配置档案，默认为服务端选择的档案
 }
 
-export interface QueryResult {
-  success: boolean;
-  results?: FofaResult[];
-  query?: string;
-  explanation?: string;
-  error?: string;
-  count?: number;
+export interface CollectResultsArgs {
+  query?: string; // 自然语言查询，与 fofaQuery 二选一
+  fofaQuery?: string;
+  target?: number;
+  pageSize?: number;
+  maxFpoints?: number;
+  fields?: string[];
+  dryRun?: boolean; // 只预览查询和F点消耗，不执行
+  confirm?: boolean; // 预计消耗超过阈值时需显式确认
+  outputPath?: string; // 将完整结果导出到该文件
+  outputFormat?: ExportFormat; // 导出格式，默认按文件扩展名推断
+  cache?: CacheMode; // 本地缓存策略，默认 default
+  profile?: string; // 使用的配置档案，默认为服务端选择的档案
+}
+
+export interface ExportTargetsArgs {
+  query?: string; // 自然语言查询，与 fofaQuery 二选一
+  fofaQuery?: string;
+  format: TargetListFormat;
+  target?: number; // 最多收集的结果数量
+  maxFpoints?: number;
+  confirm?: boolean; // 预计消耗超过阈值时需显式确认
+  outputPath?: string; // 将目标列表写入该文件
+  profile?: string; // 使用的配置档案，默认为服务端选择的档案
+}
+
+export interface QueryHistoryArgs {
+  search?: string; // 按输入、查询语句或说明搜索
+  limit?: number; // 最多返回的记录数，默认20
+}
+
+export interface ReplayQueryArgs {
+  id: string; // 历史记录ID或唯一的ID前缀
+  dryRun?: boolean; // 只预览查询和F点消耗，不执行
+  confirm?: boolean; // 预计消耗超过阈值时需显式确认
+  outputPath?: string; // 将完整结果导出到该文件
+  outputFormat?: ExportFormat; // 导出格式，默认按文件扩展名推断
+  cache?: CacheMode; // 本地缓存策略，默认 default
+  profile?: string; // 使用的配置档案，默认为服务端选择的档案
+}
+
+export interface StatsQueryArgs {
+  query?: string; // 自然语言查询，与 fofaQuery 二选一
+  fofaQuery?: string;
+  fields?: string[]; // 聚合字段
+  profile?: string; // 使用的配置档案，默认为服务端选择的档案
+}
+
+export interface HostLookupArgs {
+  ip: string;
+  profile?: string; // 使用的配置档案，默认为服务端选择的档案
+}
+
+export interface AccountStatusArgs {
+  checkLlm?: boolean; // 是否同时检查LLM接口，默认true
+  profile?: string; // 使用的配置档案，默认为服务端选择的档案
 }
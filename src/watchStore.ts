@@ -0,0 +1,116 @@
+/**
+ * Watch Store - 监控查询存储
+ * 保存命名的监控查询以及每个查询最近一次运行的结果快照
+ */
+
+import * as os from "os";
+import * as path from "path";
+import { SavedQuery, WatchSnapshot } from "./types.js";
+import { FileStore } from "./fileStore.js";
+
+/**
+ * 监控查询每次运行默认最多收集的结果数量
+ */
+export const DEFAULT_WATCH_TARGET = 500;
+
+export class WatchStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * 默认目录：~/.nl2fofa/watch
+   */
+  static defaultDirectory(): string {
+    return path.join(os.homedir(), ".nl2fofa", "watch");
+  }
+
+  /**
+   * 校验监控查询名称，名称用作文件名，只允许字母、数字、下划线、点和连字符
+   * @param name 名称
+   * @throws Error 名称不合法时抛出
+   */
+  static validateName(name: string): void {
+    if (!/^[\p{L}\p{N}_.-]+$/u.test(name) || name.startsWith(".")) {
+      throw new Error(
+        `监控查询名称 "${name}" 不合法，只能包含字母、数字、下划线、点和连字符，且不能以点开头`
+      );
+    }
+  }
+
+  /**
+   * 保存监控查询，同名查询会被覆盖，旧快照同时删除以免与新查询对比
+   * @param query 监控查询
+   */
+  async save(query: SavedQuery): Promise<void> {
+    WatchStore.validateName(query.name);
+    await FileStore.remove(this.snapshotPath(query.name));
+    await FileStore.writeJson(this.queryPath(query.name), query);
+  }
+
+  /**
+   * 读取监控查询
+   * @param name 名称
+   * @returns Promise<SavedQuery | null> 监控查询，不存在时返回null
+   */
+  async get(name: string): Promise<SavedQuery | null> {
+    WatchStore.validateName(name);
+    return FileStore.readJson<SavedQuery>(this.queryPath(name));
+  }
+
+  /**
+   * 列出全部监控查询，按名称排序
+   */
+  async list(): Promise<SavedQuery[]> {
+    const queries: SavedQuery[] = [];
+    for (const name of await FileStore.listJson(this.queriesDirectory())) {
+      const query = await FileStore.readJson<SavedQuery>(this.queryPath(name));
+      if (query) {
+        queries.push(query);
+      }
+    }
+    return queries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * 删除监控查询及其快照
+   * @param name 名称
+   * @returns Promise<boolean> 监控查询是否存在
+   */
+  async remove(name: string): Promise<boolean> {
+    WatchStore.validateName(name);
+    await FileStore.remove(this.snapshotPath(name));
+    return FileStore.remove(this.queryPath(name));
+  }
+
+  /**
+   * 读取监控查询最近一次运行的结果快照
+   * @param name 名称
+   * @returns Promise<WatchSnapshot | null> 快照，从未运行过时返回null
+   */
+  async loadSnapshot(name: string): Promise<WatchSnapshot | null> {
+    return FileStore.readJson<WatchSnapshot>(this.snapshotPath(name));
+  }
+
+  /**
+   * 保存结果快照，替换上一次的快照
+   * @param snapshot 快照
+   */
+  async saveSnapshot(snapshot: WatchSnapshot): Promise<void> {
+    await FileStore.writeJson(this.snapshotPath(snapshot.name), snapshot);
+  }
+
+  private queriesDirectory(): string {
+    return path.join(this.directory, "queries");
+  }
+
+  private queryPath(name: string): string {
+    return path.join(this.queriesDirectory(), `${name}.json`);
+  }
+
+  private snapshotPath(name: string): string {
+    return path.join(this.directory, "snapshots", `${name}.json`);
+  }
+}